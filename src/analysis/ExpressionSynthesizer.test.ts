@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { GridCoord } from '../core/types';
+import { compileCondition } from '../core/Expression';
+import { ExpressionSynthesizer } from './ExpressionSynthesizer';
+
+/** The cells of an H x W grid where the shape holds */
+function cellsOf(H: number, W: number, shape: (r: number, c: number) => boolean): GridCoord[] {
+    const cells: GridCoord[] = [];
+    for (let r = 0; r < H; r++) {
+        for (let c = 0; c < W; c++) {
+            if (shape(r, c)) cells.push({ row: r, col: c });
+        }
+    }
+    return cells;
+}
+
+describe('ExpressionSynthesizer', () => {
+    it('finds the smallest expression selecting exactly the cells', () => {
+        const cells = cellsOf(6, 8, (r, c) => 2 * r < c);
+        const result = new ExpressionSynthesizer(6, 8, { timeBudgetMs: 2000 }).synthesize(cells)!;
+
+        expect(result).toMatchObject({ expression: 'r < c - r', size: 5 });
+        const test = compileCondition(result.expression);
+        expect(cellsOf(6, 8, (r, c) => test(r, c, 6, 8))).toEqual(cells);
+    });
+
+    it('trusts larger expressions less', () => {
+        const synthesizer = new ExpressionSynthesizer(6, 8, { timeBudgetMs: 2000 });
+        const small = synthesizer.synthesize(cellsOf(6, 8, (r, c) => 2 * r < c))!;
+        const large = synthesizer.synthesize(cellsOf(6, 8, (r, c) => c === 7 - r && r > 1))!;
+
+        expect(large.size).toBeGreaterThan(small.size);
+        expect(large.confidence).toBeLessThan(small.confidence);
+    });
+
+    it('gives up on cells no small expression explains', () => {
+        const noise = cellsOf(6, 7, (r, c) => (r * 31 + c * 17) % 11 < 3);
+
+        expect(new ExpressionSynthesizer(6, 7).synthesize(noise)).toBeNull();
+    });
+
+    it('stops when the time budget runs out', () => {
+        const cells = cellsOf(6, 8, (r, c) => (r * c) % 3 === 1);
+
+        expect(new ExpressionSynthesizer(6, 8, { timeBudgetMs: 1 }).synthesize(cells)).toBeNull();
+    });
+});
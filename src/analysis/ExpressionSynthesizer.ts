@@ -0,0 +1,257 @@
+/**
+ * ExpressionSynthesizer - Bounded search for the smallest matching condition
+ *
+ * Enumerates expressions bottom-up by size over r, c, H, W and small
+ * constants, keeping one expression per distinct result on the grid
+ * (observational equivalence). The first boolean expression whose result
+ * equals the drawn cells is the smallest one that explains them.
+ */
+
+import { GridCoord } from '../core/types';
+import { ExprNode, BinaryOp, printExpression } from '../core/Expression';
+
+export interface SynthesisOptions {
+    maxSize?: number;       // Largest expression, counted in AST nodes
+    timeBudgetMs?: number;  // Give up after this long
+    maxTerms?: number;      // Cap on stored terms of each kind (memory bound)
+}
+
+export interface SynthesisResult {
+    expression: string;
+    size: number;
+    confidence: number;     // Smaller expressions are more trustworthy
+}
+
+interface Term<V> {
+    vec: V;
+    node: ExprNode;
+    size: number;
+    isConstant: boolean;
+}
+
+type IntTerm = Term<Int32Array>;
+type BoolTerm = Term<Uint8Array>;
+
+const ARITHMETIC: BinaryOp[] = ['+', '-', '*', '/', '%'];
+const COMPARISONS: BinaryOp[] = ['==', '!=', '<', '<='];
+const COMMUTATIVE = new Set<BinaryOp>(['+', '*', '==', '!=', '&&', '||']);
+
+export class ExpressionSynthesizer {
+    private readonly H: number;
+    private readonly W: number;
+    private readonly N: number;
+    private readonly options: Required<SynthesisOptions>;
+
+    private ints: IntTerm[][] = [];
+    private bools: BoolTerm[][] = [];
+    private intCount = 0;
+    private boolCount = 0;
+    private seenInts = new Set<number>();
+    private seenBools = new Set<number>();
+
+    // Candidates are computed into these and copied only when new
+    private readonly intScratch: Int32Array;
+    private readonly boolScratch: Uint8Array;
+
+    constructor(H: number, W: number, options: SynthesisOptions = {}) {
+        this.H = H;
+        this.W = W;
+        this.N = H * W;
+        this.intScratch = new Int32Array(this.N);
+        this.boolScratch = new Uint8Array(this.N);
+        this.options = { maxSize: 9, timeBudgetMs: 200, maxTerms: 10000, ...options };
+    }
+
+    /** Smallest expression selecting exactly these cells, or null within budget */
+    synthesize(cells: GridCoord[]): SynthesisResult | null {
+        const target = new Uint8Array(this.N);
+        for (const cell of cells) target[cell.row * this.W + cell.col] = 1;
+        const targetKey = this.hash(target);
+
+        const deadline = Date.now() + this.options.timeBudgetMs;
+        this.reset();
+
+        const found = (term: BoolTerm | null): SynthesisResult | null => {
+            if (!term || this.hash(term.vec) !== targetKey || !this.equals(term.vec, target)) return null;
+            return {
+                expression: printExpression(term.node),
+                size: term.size,
+                confidence: 1 - term.size / (2 * this.options.maxSize)
+            };
+        };
+
+        for (let size = 1; size <= this.options.maxSize; size++) {
+            this.bools[size] = [];
+
+            // Comparisons of this size need integer terms up to size - 2
+            if (size > 2 && !this.growInts(size - 2, deadline)) return null;
+
+            for (const t of this.bools[size - 1] ?? []) {
+                const result = found(this.addBool(size, { kind: 'unary', op: '!', arg: t.node }, t.vec.map(v => 1 - v)));
+                if (result) return result;
+            }
+
+            for (let s1 = 1; s1 < size - 1; s1++) {
+                const s2 = size - 1 - s1;
+
+                for (let i = 0; i < this.ints[s1].length; i++) {
+                    const a = this.ints[s1][i];
+
+                    for (let j = 0; j < this.ints[s2].length; j++) {
+                        if (Date.now() > deadline) return null;
+                        const mirrored = s1 > s2 || (s1 === s2 && i > j);
+                        for (const op of COMPARISONS) {
+                            if (COMMUTATIVE.has(op) && mirrored) continue;
+                            const result = found(this.compare(size, op, a, this.ints[s2][j]));
+                            if (result) return result;
+                        }
+                    }
+                }
+
+                for (let i = 0; i < this.bools[s1].length; i++) {
+                    const a = this.bools[s1][i];
+
+                    for (let j = 0; j < this.bools[s2].length; j++) {
+                        if (Date.now() > deadline) return null;
+                        if (s1 > s2 || (s1 === s2 && i > j)) continue;
+                        const b = this.bools[s2][j];
+
+                        for (const op of ['&&', '||'] as const) {
+                            const vec = this.boolScratch;
+                            for (let k = 0; k < this.N; k++) {
+                                vec[k] = op === '&&' ? a.vec[k] & b.vec[k] : a.vec[k] | b.vec[k];
+                            }
+                            const result = found(this.addBool(size, { kind: 'binary', op, left: a.node, right: b.node }, vec));
+                            if (result) return result;
+                        }
+                    }
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /** Build all integer terms of one size; false once the deadline has passed */
+    private growInts(size: number, deadline: number): boolean {
+        this.ints[size] = [];
+        if (size === 1) {
+            this.addLeaves();
+            return true;
+        }
+
+        for (const t of this.ints[size - 1]) {
+            this.addInt(size, { kind: 'call', name: 'abs', args: [t.node] }, t.vec.map(Math.abs), t.isConstant);
+        }
+
+        for (let s1 = 1; s1 < size - 1; s1++) {
+            const s2 = size - 1 - s1;
+            for (let i = 0; i < this.ints[s1].length; i++) {
+                for (let j = 0; j < this.ints[s2].length; j++) {
+                    if (Date.now() > deadline) return false;
+                    const mirrored = s1 > s2 || (s1 === s2 && i > j);
+                    for (const op of ARITHMETIC) {
+                        if (COMMUTATIVE.has(op) && mirrored) continue;
+                        this.combineInts(size, op, this.ints[s1][i], this.ints[s2][j]);
+                    }
+                }
+            }
+        }
+        return true;
+    }
+
+    private reset(): void {
+        this.ints = [[]];
+        this.bools = [[]];
+        this.intCount = 0;
+        this.boolCount = 0;
+        this.seenInts.clear();
+        this.seenBools.clear();
+    }
+
+    /** r, c, H, W and the constants 0, 1, 2 */
+    private addLeaves(): void {
+        const r = new Int32Array(this.N);
+        const c = new Int32Array(this.N);
+        for (let k = 0; k < this.N; k++) {
+            r[k] = Math.floor(k / this.W);
+            c[k] = k % this.W;
+        }
+        this.addInt(1, { kind: 'var', name: 'r' }, r, false);
+        this.addInt(1, { kind: 'var', name: 'c' }, c, false);
+        this.addInt(1, { kind: 'var', name: 'H' }, new Int32Array(this.N).fill(this.H), true);
+        this.addInt(1, { kind: 'var', name: 'W' }, new Int32Array(this.N).fill(this.W), true);
+        for (const value of [0, 1, 2]) {
+            this.addInt(1, { kind: 'num', value }, new Int32Array(this.N).fill(value), true);
+        }
+    }
+
+    private combineInts(size: number, op: BinaryOp, a: IntTerm, b: IntTerm): void {
+        // Only divide by positive constants, so generated code never divides by zero
+        if ((op === '/' || op === '%') && (!b.isConstant || b.vec[0] <= 0)) return;
+
+        const vec = this.intScratch, x = a.vec, y = b.vec;
+        switch (op) {
+            case '+': for (let k = 0; k < this.N; k++) vec[k] = x[k] + y[k]; break;
+            case '-': for (let k = 0; k < this.N; k++) vec[k] = x[k] - y[k]; break;
+            case '*': for (let k = 0; k < this.N; k++) vec[k] = x[k] * y[k]; break;
+            case '/': for (let k = 0; k < this.N; k++) vec[k] = Math.trunc(x[k] / y[k]); break;
+            case '%': for (let k = 0; k < this.N; k++) vec[k] = x[k] % y[k]; break;
+        }
+        this.addInt(size, { kind: 'binary', op, left: a.node, right: b.node }, vec, a.isConstant && b.isConstant);
+    }
+
+    private compare(size: number, op: BinaryOp, a: IntTerm, b: IntTerm): BoolTerm | null {
+        // Comparing two constants says nothing about cells
+        if (a.isConstant && b.isConstant) return null;
+
+        const vec = this.boolScratch, x = a.vec, y = b.vec;
+        switch (op) {
+            case '==': for (let k = 0; k < this.N; k++) vec[k] = x[k] === y[k] ? 1 : 0; break;
+            case '!=': for (let k = 0; k < this.N; k++) vec[k] = x[k] !== y[k] ? 1 : 0; break;
+            case '<': for (let k = 0; k < this.N; k++) vec[k] = x[k] < y[k] ? 1 : 0; break;
+            case '<=': for (let k = 0; k < this.N; k++) vec[k] = x[k] <= y[k] ? 1 : 0; break;
+        }
+        return this.addBool(size, { kind: 'binary', op, left: a.node, right: b.node }, vec);
+    }
+
+    private addInt(size: number, node: ExprNode, vec: Int32Array, isConstant: boolean): void {
+        // An integer term only matters inside a comparison, which adds two more nodes
+        if (size > this.options.maxSize - 2 || this.intCount >= this.options.maxTerms) return;
+        const key = this.hash(vec);
+        if (this.seenInts.has(key)) return;
+        this.seenInts.add(key);
+        this.ints[size].push({ vec: vec.slice(), node, size, isConstant });
+        this.intCount++;
+    }
+
+    /** Store a new boolean term; returns it so the caller can test it against the target */
+    private addBool(size: number, node: ExprNode, vec: Uint8Array): BoolTerm | null {
+        const key = this.hash(vec);
+        if (this.seenBools.has(key)) return null;
+        this.seenBools.add(key);
+
+        // Keep it for && / || only if a comparison (3 nodes) still fits beside it
+        const term = { vec: vec.slice(), node, size, isConstant: false };
+        if (size <= this.options.maxSize - 4 && this.boolCount < this.options.maxTerms) {
+            this.bools[size].push(term);
+            this.boolCount++;
+        }
+        return term;
+    }
+
+    /** 53-bit hash of a vector, built from two independent 32-bit hashes */
+    private hash(vec: Int32Array | Uint8Array): number {
+        let h1 = 0x811c9dc5, h2 = 0x12345678;
+        for (let k = 0; k < vec.length; k++) {
+            h1 = Math.imul(h1 ^ vec[k], 0x01000193);
+            h2 = Math.imul(h2 + vec[k], 0x5bd1e995) ^ (h2 >>> 15);
+        }
+        return (h1 >>> 0) + (h2 & 0x1fffff) * 0x100000000;
+    }
+
+    private equals(a: Uint8Array, b: Uint8Array): boolean {
+        for (let k = 0; k < a.length; k++) if (a[k] !== b[k]) return false;
+        return true;
+    }
+}
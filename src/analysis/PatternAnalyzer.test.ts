@@ -0,0 +1,515 @@
+import { describe, expect, it } from 'vitest';
+import { Grid } from '../core/Grid';
+import { Predicate, PredicateExceptions, PredicateType, RowLayout } from '../core/types';
+import { collectVariables, compileCellExpression, compileCondition, parseExpression, printExpression, substitute } from '../core/Expression';
+import { PatternAnalyzer } from './PatternAnalyzer';
+
+type Shape = (r: number, c: number, H: number, W: number) => boolean;
+
+/** A grid with `char` wherever the shape holds */
+function draw(H: number, W: number, shape: Shape, char = '#'): Grid {
+    const grid = new Grid(H, W);
+    for (let r = 0; r < H; r++) {
+        for (let c = 0; c < W; c++) {
+            if (shape(r, c, H, W)) grid.setCell(r, c, char, 0);
+        }
+    }
+    return grid;
+}
+
+/** What the predicates print at a size, first match per cell as in the generated if / else chain */
+function print(predicates: Predicate[], H: number, W: number, t?: number): string {
+    const tests = predicates.map(p => {
+        const node = parseExpression(p.expression);
+        const source = t === undefined ? p.expression : printExpression(substitute(node, { t: { kind: 'num', value: t } }));
+        const compute = p.charExpression ? compileCellExpression(p.charExpression) : null;
+        return {
+            test: compileCondition(source),
+            char: (r: number, c: number) => compute ? String.fromCharCode(compute(r, c, H, W)) : p.char,
+        };
+    });
+    const lines: string[] = [];
+    for (let r = 0; r < H; r++) {
+        let line = '';
+        for (let c = 0; c < W; c++) line += tests.find(({ test }) => test(r, c, H, W))?.char(r, c) ?? ' ';
+        lines.push(line);
+    }
+    return lines.join('\n');
+}
+
+/** What row loops print: per row, so many spaces then so many copies of the character */
+function printRows({ char, runs }: RowLayout, H: number, W: number): string {
+    const lines: string[] = [];
+    for (const run of runs) {
+        const [from, to, spaces, count] = [run.from, run.to, run.spaces, run.count].map(compileCellExpression);
+        for (let r = from(0, 0, H, W); r < to(0, 0, H, W); r++) {
+            lines.push(' '.repeat(spaces(r, 0, H, W)) + char.repeat(count(r, 0, H, W)));
+        }
+    }
+    return lines.map(line => line.padEnd(W)).join('\n');
+}
+
+describe('PatternAnalyzer detectors', () => {
+    // Each shape drawn at the first size is read as the type, and the reading
+    // still draws the shape at the second size
+    const cases: Array<{ type: PredicateType; sizes: Array<[number, number]>; shape: Shape }> = [
+        { type: 'border', sizes: [[6, 8], [9, 5]], shape: (r, c, H, W) => r === 0 || c === 0 || r === H - 1 || c === W - 1 },
+        { type: 'diagonal', sizes: [[6, 6], [9, 9]], shape: (r, c) => r === c },
+        { type: 'anti_diagonal', sizes: [[6, 6], [9, 9]], shape: (r, c, H) => r + c === H - 1 },
+        { type: 'horizontal_line', sizes: [[5, 8], [9, 4]], shape: (r, _, H) => r === Math.trunc(H / 2) },
+        { type: 'vertical_line', sizes: [[5, 8], [4, 11]], shape: (_, c, __, W) => c === Math.trunc(W / 2) },
+        { type: 'line', sizes: [[5, 9], [7, 13]], shape: (r, c) => c === 2 * r },
+        { type: 'filled_rect', sizes: [[8, 8]], shape: (r, c) => r >= 2 && r < 6 && c >= 2 && c < 6 },
+        { type: 'hollow_rect', sizes: [[10, 12], [14, 9]], shape: (r, c, H, W) => Math.min(r, c, H - 1 - r, W - 1 - c) === 2 },
+        { type: 'frame', sizes: [[10, 12], [7, 15]], shape: (r, c, H, W) => Math.min(r, c, H - 1 - r, W - 1 - c) < 2 },
+        { type: 'triangle', sizes: [[6, 6], [10, 10]], shape: (r, c) => c <= r },
+        { type: 'pyramid', sizes: [[5, 9], [8, 15]], shape: (r, c, _, W) => Math.abs(c - Math.trunc(W / 2)) <= r },
+        { type: 'hourglass', sizes: [[7, 7], [11, 11]], shape: (r, c, H, W) => Math.abs(c - Math.trunc(W / 2)) <= Math.abs(r - Math.trunc(H / 2)) },
+        { type: 'diamond', sizes: [[7, 7], [11, 11]], shape: (r, c, H, W) => Math.abs(r - Math.trunc(H / 2)) + Math.abs(c - Math.trunc(W / 2)) <= Math.trunc(H / 2) },
+        {
+            type: 'ellipse',
+            sizes: [[9, 13], [13, 21]],
+            shape: (r, c, H, W) => {
+                const [x, y, rx, ry] = [2 * c - W + 1, 2 * r - H + 1, W - 1, H - 1];
+                return x * x * ry * ry + y * y * rx * rx <= rx * rx * ry * ry;
+            },
+        },
+        { type: 'checkerboard', sizes: [[6, 6], [5, 9]], shape: (r, c) => (r + c) % 2 === 0 },
+        { type: 'periodic', sizes: [[6, 9], [4, 13]], shape: (_, c) => c % 3 === 0 },
+        { type: 'periodic', sizes: [[7, 9], [10, 12]], shape: (r, c) => r % 3 === 0 && c % 2 === 0 },
+        { type: 'bitwise', sizes: [[8, 8], [16, 16]], shape: (r, c) => (r & c) === 0 },
+        { type: 'bitwise', sizes: [[8, 8], [16, 16]], shape: (r, c) => (r & c) === c },
+        { type: 'rings', sizes: [[9, 9], [12, 10]], shape: (r, c, H, W) => Math.min(r, c, H - 1 - r, W - 1 - c) % 2 === 0 },
+        { type: 'composite', sizes: [[7, 7], [10, 12]], shape: (r, c, H, W) => r === Math.trunc(H / 2) || c === Math.trunc(W / 2) },
+    ];
+
+    it.each(cases)('reads a $type', ({ type, sizes, shape }) => {
+        const [[H, W], ...others] = sizes;
+        const grid = draw(H, W, shape);
+        const { predicates } = new PatternAnalyzer(grid).analyze();
+
+        expect(predicates).toHaveLength(1);
+        expect(predicates[0].type).toBe(type);
+        expect(print(predicates, H, W)).toBe(grid.toString());
+        for (const [h, w] of others) {
+            expect(predicates[0].isScalable).toBe(true);
+            expect(print(predicates, h, w)).toBe(draw(h, w, shape).toString());
+        }
+    });
+
+    it('joins a border and both diagonals into one composite', () => {
+        const shape: Shape = (r, c, H, W) => r === 0 || c === 0 || r === H - 1 || c === W - 1 || r === c || r + c === H - 1;
+        const { predicates } = new PatternAnalyzer(draw(7, 7, shape)).analyze();
+
+        expect(predicates.map(p => [p.type, p.isScalable])).toEqual([['composite', true]]);
+        expect(print(predicates, 11, 11)).toBe(draw(11, 11, shape).toString());
+    });
+
+    it('reads a spiral', () => {
+        const rows = ['#######', '      #', '##### #', '#   # #', '# ### #', '#     #', '#######'];
+        const grid = draw(7, 7, (r, c) => rows[r][c] === '#');
+        const { predicates } = new PatternAnalyzer(grid).analyze();
+
+        expect(predicates.map(p => p.type)).toEqual(['spiral']);
+        expect(print(predicates, 7, 7)).toBe(grid.toString());
+    });
+
+    it('keeps scattered cells exact', () => {
+        const grid = draw(6, 7, (r, c) => (r * 31 + c * 17) % 11 < 3);
+        const result = new PatternAnalyzer(grid).analyze();
+
+        expect(result.isFullyParametric).toBe(false);
+        expect(print(result.predicates, 6, 7)).toBe(grid.toString());
+    });
+
+    it('marks a triangle at a fixed offset from the corner as fixed', () => {
+        const grid = draw(11, 11, (r, c) => c <= r - 3);
+        const { predicates } = new PatternAnalyzer(grid).analyze();
+
+        expect(predicates.map(p => [p.type, p.isScalable])).toEqual([['triangle', false]]);
+        expect(print(predicates, 11, 11)).toBe(grid.toString());
+    });
+
+    it('keeps a diagonal that starts at a drawn column where it was drawn', () => {
+        const grid = draw(8, 8, (r, c) => c === r + 2);
+        const { predicates } = new PatternAnalyzer(grid).analyze();
+
+        expect(predicates[0]).toMatchObject({ type: 'diagonal', expression: 'c - r == 2', isScalable: false, params: [] });
+        expect(print(predicates, 8, 8)).toBe(grid.toString());
+    });
+
+    it('describes one half of a mirror-symmetric drawing and mirrors it', () => {
+        const bowtie: Shape = (r, c, H, W) => Math.min(c, W - 1 - c) <= Math.min(r, H - 1 - r);
+        const { predicates } = new PatternAnalyzer(draw(8, 10, bowtie)).analyze();
+
+        expect(predicates.map(p => [p.type, p.isScalable])).toEqual([['symmetric', true]]);
+        expect(print(predicates, 12, 14)).toBe(draw(12, 14, bowtie).toString());
+    });
+
+    it('searches for an exact expression before settling for a composite of fixed shapes', () => {
+        const grid = draw(6, 8, (r, c) => Math.abs(r - c) === 2);
+        const { predicates } = new PatternAnalyzer(grid, { synthesisBudgetMs: 2000 }).analyze();
+
+        expect(predicates[0].type).toBe('synthesized');
+        expect(print(predicates, 6, 8)).toBe(grid.toString());
+    });
+
+    it('reports a synthesized expression without H or W as fixed', () => {
+        const { predicates } = new PatternAnalyzer(draw(6, 8, (r, c) => Math.abs(r - c) === 2), { synthesisBudgetMs: 2000 }).analyze();
+
+        expect(predicates[0]).toMatchObject({ type: 'synthesized', isScalable: false, params: [] });
+    });
+
+    it('writes every bound of a composite of fixed shapes as drawn', () => {
+        const grid = draw(6, 8, (r, c) => (r * c) % 3 === 1);
+        const { predicates } = new PatternAnalyzer(grid, { synthesisBudgetMs: 0 }).analyze();
+
+        expect(predicates.map(p => [p.type, p.isScalable, p.params])).toEqual([['composite', false, []]]);
+        expect(collectVariables(parseExpression(predicates[0].expression))).not.toContain('H');
+        expect(collectVariables(parseExpression(predicates[0].expression))).not.toContain('W');
+        expect(print(predicates, 6, 8)).toBe(grid.toString());
+    });
+});
+
+describe('PatternAnalyzer tolerance', () => {
+    const border: Shape = (r, c, H, W) => r === 0 || c === 0 || r === H - 1 || c === W - 1;
+    const drawings: Record<string, [Shape, PredicateExceptions]> = {
+        'missing one cell': [
+            (r, c, H, W) => border(r, c, H, W) && !(r === 0 && c === 4),
+            { include: [], exclude: [{ row: 0, col: 4 }] },
+        ],
+        'with one extra cell': [
+            (r, c, H, W) => border(r, c, H, W) || (r === 4 && c === 4),
+            { include: [{ row: 4, col: 4 }], exclude: [] },
+        ],
+        'missing one cell and with one extra': [
+            (r, c, H, W) => (border(r, c, H, W) && !(r === 9 && c === 6)) || (r === 3 && c === 5),
+            { include: [{ row: 3, col: 5 }], exclude: [{ row: 9, col: 6 }] },
+        ],
+    };
+
+    it.each(Object.entries(drawings))('reads a border %s as the border with exceptions', (_, [shape, exceptions]) => {
+        const grid = draw(10, 10, shape);
+        const { predicates } = new PatternAnalyzer(grid, { tolerance: 3 }).analyze();
+
+        expect(predicates.map(p => [p.type, p.isScalable])).toEqual([['border', true]]);
+        expect(predicates[0].exceptions).toEqual(exceptions);
+        expect(print(predicates, 10, 10)).toBe(grid.toString());
+    });
+
+    it('reads a diagonal missing one cell as the diagonal with an exception', () => {
+        const { predicates } = new PatternAnalyzer(draw(10, 10, (r, c) => r === c && r !== 5), { tolerance: 3 }).analyze();
+
+        expect(predicates[0].type).toBe('diagonal');
+        expect(predicates[0].exceptions).toEqual({ include: [], exclude: [{ row: 5, col: 5 }] });
+    });
+
+    it('keeps exact readings when the tolerance is off', () => {
+        const grid = draw(10, 10, (r, c, H, W) => border(r, c, H, W) && !(r === 0 && c === 4));
+        const { predicates } = new PatternAnalyzer(grid).analyze();
+
+        expect(predicates[0].exceptions).toBeUndefined();
+        expect(print(predicates, 10, 10)).toBe(grid.toString());
+    });
+
+    it('says which patterns are fixed in the closing warning', () => {
+        const { warnings } = new PatternAnalyzer(draw(11, 11, (r, c) => c <= r - 3)).analyze();
+
+        expect(warnings[warnings.length - 1]).toContain('Some patterns are drawn at fixed positions.');
+    });
+});
+
+describe('PatternAnalyzer.analyzeExamples', () => {
+    it('keeps a column that stays put across examples fixed', () => {
+        const line: Shape = (_, c) => c === 3;
+        const single = new PatternAnalyzer(draw(6, 6, line)).analyze();
+        const { predicates, warnings } = PatternAnalyzer.analyzeExamples([draw(6, 6, line), draw(8, 10, line)]);
+
+        expect(single.predicates[0].expression).toBe('c == W/2');
+        expect(predicates[0].expression).toBe('c == 3');
+        expect(warnings).toContain("Character '#': vertical_line confirmed across 2 examples.");
+    });
+
+    it('measures a bound from the edge it keeps its distance to', () => {
+        const block: Shape = (r, c, H, W) => r >= 1 && r < H - 1 && c >= W - 4 && c < W - 1;
+        const { predicates } = PatternAnalyzer.analyzeExamples([draw(8, 8, block), draw(10, 14, block)]);
+
+        expect(print(predicates, 12, 20)).toBe(draw(12, 20, block).toString());
+    });
+
+    it('keeps the current reading when the examples disagree', () => {
+        const { predicates, warnings } = PatternAnalyzer.analyzeExamples([
+            draw(6, 6, (r, c) => r === c),
+            draw(8, 8, (r, c) => r + c === 7),
+        ]);
+
+        expect(predicates[0].type).toBe('diagonal');
+        expect(warnings).toContain("Character '#': examples do not agree on one pattern; using the current drawing only.");
+    });
+});
+
+describe('PatternAnalyzer candidates', () => {
+    const border = draw(6, 8, (r, c, H, W) => r === 0 || c === 0 || r === H - 1 || c === W - 1);
+
+    it('ranks every reading of a character, scalable first and the coordinate set last', () => {
+        const ranked = new PatternAnalyzer(border).analyze().candidates.get('#')!;
+
+        expect(ranked[0]).toMatchObject({ type: 'border', isScalable: true });
+        expect(ranked.map(p => p.type)).toContain('hollow_rect');
+        expect(ranked.find(p => !p.isScalable)!.expression).toBe('r == 0 || r == 5 || c == 0 || c == 7');
+        expect(ranked[ranked.length - 1].type).toBe('coordinate_set');
+    });
+
+    it('uses the reading picked by hand', () => {
+        const choices = { '#': 'r == 0 || r == 5 || c == 0 || c == 7' };
+        const { predicates, isFullyParametric } = new PatternAnalyzer(border, { choices }).analyze();
+
+        expect(predicates[0].expression).toBe(choices['#']);
+        expect(isFullyParametric).toBe(false);
+    });
+
+    it('falls back to the best reading when the pick no longer fits the drawing', () => {
+        const { predicates } = new PatternAnalyzer(border, { choices: { '#': 'r == c' } }).analyze();
+
+        expect(predicates[0].type).toBe('border');
+    });
+});
+
+describe('PatternAnalyzer.analyzeLayers', () => {
+    const background = draw(6, 6, (r, c, H, W) => r === 0 || c === 0 || r === H - 1 || c === W - 1);
+
+    it('reads the background whole under the frame and tests the frame first', () => {
+        const frame = draw(6, 6, (r, c) => r === c, '\\');
+        const { predicates } = PatternAnalyzer.analyzeLayers(frame, background);
+
+        expect(predicates.map(p => [p.char, p.type])).toEqual([['\\', 'diagonal'], ['#', 'border']]);
+        expect(print(predicates, 6, 6)).toBe(Grid.compose(background, frame).toString());
+    });
+
+    it('reads a character in both layers as one pattern', () => {
+        const frame = draw(6, 6, (r, c) => r === c);
+        const { predicates } = PatternAnalyzer.analyzeLayers(frame, background);
+
+        expect(predicates.map(p => p.type)).toEqual(['composite']);
+        expect(print(predicates, 9, 9)).toBe(draw(9, 9, (r, c, H, W) => r === 0 || c === 0 || r === H - 1 || c === W - 1 || r === c).toString());
+    });
+});
+
+describe('PatternAnalyzer positional characters', () => {
+    const numbered = (H: number) => {
+        const grid = new Grid(H, H);
+        for (let r = 0; r < H; r++) {
+            for (let c = 0; c <= r; c++) grid.setCell(r, c, String((r + 1) % 10), 0);
+        }
+        return grid;
+    };
+
+    it('prints the row number, wrapping past 9 on taller grids', () => {
+        const { predicates } = new PatternAnalyzer(numbered(5)).analyze();
+
+        expect(predicates).toHaveLength(1);
+        expect(predicates[0]).toMatchObject({ isScalable: true, charExpression: "'0' + (r + 1) % 10" });
+        expect(print(predicates, 12, 12)).toBe(numbered(12).toString());
+    });
+
+    it('wraps letters past Z', () => {
+        const letters = (W: number) => {
+            const grid = new Grid(2, W);
+            for (let c = 0; c < W; c++) grid.setCell(0, c, String.fromCharCode(65 + c % 26), 0);
+            return grid;
+        };
+        const { predicates } = new PatternAnalyzer(letters(6)).analyze();
+
+        expect(predicates[0].charExpression).toBe("'A' + c % 26");
+        expect(print(predicates, 2, 30).split('\n')[0]).toBe(letters(30).toString().split('\n')[0]);
+    });
+
+    it('numbers the rings from the edge', () => {
+        const rings = (H: number, W: number) => {
+            const grid = new Grid(H, W);
+            for (let r = 0; r < H; r++) {
+                for (let c = 0; c < W; c++) grid.setCell(r, c, String(1 + Math.min(r, c, H - 1 - r, W - 1 - c)), 0);
+            }
+            return grid;
+        };
+        const { predicates } = new PatternAnalyzer(rings(7, 7)).analyze();
+
+        expect(predicates[0].charExpression).toBe("'0' + (ring + 1) % 10");
+        expect(print(predicates, 9, 11)).toBe(rings(9, 11).toString());
+    });
+
+    it('marks values counted down by a fixed amount as fixed', () => {
+        const grid = new Grid(4, 4);
+        for (let r = 0; r < 4; r++) {
+            for (let c = 0; c < 4; c++) grid.setCell(r, c, String(6 - r - c), 0);
+        }
+        const { predicates } = new PatternAnalyzer(grid).analyze();
+
+        expect(predicates[0]).toMatchObject({ isScalable: false, charExpression: "'0' + (6 - r - c) % 10" });
+    });
+});
+
+describe('PatternAnalyzer near misses', () => {
+    const border: Shape = (r, c, H, W) => r === 0 || c === 0 || r === H - 1 || c === W - 1;
+
+    it('points a fixed reading to the scalable pattern it nearly is', () => {
+        const grid = draw(10, 10, (r, c, H, W) => border(r, c, H, W) && !(r === 0 && c === 4) && !(r === 9 && c === 6));
+        const { predicates, nearMisses, warnings } = new PatternAnalyzer(grid).analyze();
+
+        expect(predicates[0].isScalable).toBe(false);
+        expect(nearMisses.get('#')![0]).toMatchObject({
+            predicate: { type: 'border' },
+            diff: { include: [], exclude: [{ row: 0, col: 4 }, { row: 9, col: 6 }] },
+        });
+        expect(warnings).toContain("Character '#': closest patterns: border missing 2 cells.");
+    });
+
+    it('leaves scalable readings alone', () => {
+        const { nearMisses } = new PatternAnalyzer(draw(10, 10, border)).analyze();
+
+        expect(nearMisses.size).toBe(0);
+    });
+});
+
+describe('PatternAnalyzer anchors', () => {
+    const line = draw(10, 12, (_, c) => c === 3);
+
+    it.each([
+        ['start', 'c == 3'],
+        ['end', 'c == W-9'],
+        ['center', 'c == W/2-3'],
+        ['fraction', 'c == W/4'],
+        ['fixed', 'c == 3'],
+    ] as const)('writes a column pinned to the %s as %s', (pin, expression) => {
+        const { predicates } = new PatternAnalyzer(line, { anchors: [{ axis: 'col', value: 3, pin }] }).analyze();
+
+        expect(predicates[0].expression).toBe(expression);
+    });
+
+    it('writes an anchored row as drawn, and the bound just past it', () => {
+        const grid = draw(10, 12, (r, c) => r >= 2 && r <= 7 && c >= 3 && c <= 7);
+        const { predicates } = new PatternAnalyzer(grid, { anchors: [{ axis: 'row', value: 7, pin: 'fixed' }] }).analyze();
+
+        expect(predicates[0].expression).toContain('r < 8');
+        expect(print(predicates, 10, 12)).toBe(grid.toString());
+    });
+
+    it('ignores anchors on other rows and columns', () => {
+        const { predicates } = new PatternAnalyzer(line, { anchors: [{ axis: 'row', value: 3, pin: 'fixed' }] }).analyze();
+
+        expect(predicates[0].expression).toBe('c == W/4');
+    });
+});
+
+describe('PatternAnalyzer chain order', () => {
+    it('fills the inside of a border with true once the border is tested first', () => {
+        const grid = draw(6, 8, () => true, '.');
+        for (let r = 0; r < 6; r++) {
+            for (let c = 0; c < 8; c++) {
+                if (r === 0 || c === 0 || r === 5 || c === 7) grid.setCell(r, c, '#', 0);
+            }
+        }
+        const { predicates, warnings } = new PatternAnalyzer(grid).analyze();
+
+        expect(predicates.map(p => [p.char, p.expression, p.afterChars])).toEqual([
+            ['#', 'r == 0 || r == H-1 || c == 0 || c == W-1', undefined],
+            ['.', 'true', ['#']],
+        ]);
+        expect(warnings).toContain("Character '.': tested after '#', so its condition may also cover their cells.");
+        expect(print(predicates, 6, 8)).toBe(grid.toString());
+    });
+
+    it('moves a character ahead of one drawn before it when that shortens the program', () => {
+        const inner: Shape = (r, c, H, W) => r >= 2 && r < H - 2 && c >= 2 && c < W - 2;
+        const outer: Shape = (r, c, H, W) => r >= 1 && r < H - 1 && c >= 1 && c < W - 1;
+        const squares = (H: number, W: number) => {
+            const grid = draw(H, W, outer, 'x');
+            for (const cell of draw(H, W, inner).getCellsByChar().get('#')!) grid.setCell(cell.row, cell.col, 'o', 0);
+            return grid;
+        };
+        const { predicates } = new PatternAnalyzer(squares(7, 7)).analyze();
+
+        expect(predicates.map(p => [p.char, p.afterChars])).toEqual([['o', undefined], ['x', ['o']]]);
+        expect(print(predicates, 9, 11)).toBe(squares(9, 11).toString());
+    });
+});
+
+describe('PatternAnalyzer.analyzeMotion', () => {
+    const frames = (count: number, H: number, W: number, shape: (r: number, c: number, t: number) => string | null) =>
+        Array.from({ length: count }, (_, t) => {
+            const grid = new Grid(H, W);
+            for (let r = 0; r < H; r++) {
+                for (let c = 0; c < W; c++) {
+                    const char = shape(r, c, t);
+                    if (char) grid.setCell(r, c, char, 0);
+                }
+            }
+            return grid;
+        });
+
+    const scenes = {
+        'a ball moving right': frames(5, 7, 16, (r, c, t) => (Math.abs(r - 3) + Math.abs(c - 2 - 2 * t) <= 1 ? 'o' : null)),
+        'a growing bar': frames(5, 6, 12, (r, c, t) => (r >= 2 && r <= 3 && c >= 1 && c <= 2 + t ? '=' : null)),
+        'a diagonal sliding down': frames(5, 8, 12, (r, c, t) => (r === c - t ? '\\' : null)),
+        'a shape moving inside a border': frames(4, 8, 14, (r, c, t) =>
+            (r === 0 || r === 7 || c === 0 || c === 13 ? '#' : r >= 2 && r <= 3 && c >= 2 + 2 * t && c <= 3 + 2 * t ? '@' : null)),
+        'a shape turning': frames(4, 5, 5, (r, c, t) => {
+            const [y, x] = [[r, c], [c, 4 - r], [4 - r, 4 - c], [4 - c, r]][t];
+            return (x === 1 && y >= 1 && y <= 3) || (y === 3 && x === 2) ? '*' : null;
+        }),
+    };
+
+    it.each(Object.entries(scenes))('draws every frame of %s from t', (_, grids) => {
+        const motion = PatternAnalyzer.analyzeMotion(grids)!;
+
+        expect(motion).not.toBeNull();
+        grids.forEach((grid, t) => expect(print(motion.predicates, grid.rows, grid.cols, t)).toBe(grid.toString()));
+    });
+
+    it('finds no motion in frames that do not change', () => {
+        expect(PatternAnalyzer.analyzeMotion(frames(3, 6, 6, (r, c) => (r === c ? 'x' : null)))).toBeNull();
+    });
+
+    it('finds no motion when a character appears in only some frames', () => {
+        expect(PatternAnalyzer.analyzeMotion(frames(3, 6, 6, (r, c, t) => (r === c && t > 0 ? 'x' : null)))).toBeNull();
+    });
+
+    it('writes a moving shape whose bounds are measured in different ways as drawn', () => {
+        const grids = frames(4, 5, 8, (r, c, t) => (r === 3 && c === 2 + t ? 'o' : null));
+        const { predicates } = PatternAnalyzer.analyzeMotion(grids)!;
+
+        expect(predicates[0]).toMatchObject({ isScalable: false, params: [], expression: 'r >= 3 && r < 4 && c >= 2 + t && c < 3 + t' });
+        grids.forEach((grid, t) => expect(print(predicates, 5, 8, t)).toBe(grid.toString()));
+    });
+});
+
+describe('PatternAnalyzer.analyzeRows', () => {
+    const pyramid: Shape = (r, c, H) => Math.abs(c - (H - 1)) <= r;
+
+    it('prints a pyramid row by row at any height', () => {
+        const layout = PatternAnalyzer.analyzeRows(draw(5, 9, pyramid, '*'))!;
+
+        expect(layout.char).toBe('*');
+        expect(printRows(layout, 5, 9)).toBe(draw(5, 9, pyramid, '*').toString());
+        expect(printRows(layout, 8, 15)).toBe(draw(8, 15, pyramid, '*').toString());
+    });
+
+    it('splits rows where the step changes', () => {
+        const diamond: Shape = (r, c) => Math.abs(r - 3) + Math.abs(c - 3) <= 3;
+        const layout = PatternAnalyzer.analyzeRows(draw(7, 7, diamond))!;
+
+        expect(layout.runs.length).toBeGreaterThan(1);
+        expect(printRows(layout, 7, 7)).toBe(draw(7, 7, diamond).toString());
+    });
+
+    it('declines drawings with a gap in a row', () => {
+        expect(PatternAnalyzer.analyzeRows(draw(5, 8, (_, c) => c === 1 || c === 6))).toBeNull();
+    });
+
+    it('declines drawings of more than one character', () => {
+        const grid = draw(4, 4, (r, c) => c <= r);
+        grid.setCell(0, 3, 'x', 0);
+
+        expect(PatternAnalyzer.analyzeRows(grid)).toBeNull();
+    });
+});
@@ -6,70 +6,791 @@
  */
 
 import { Grid } from '../core/Grid';
-import { GridCoord, Predicate, AnalysisResult } from '../core/types';
+import { GridCoord, Predicate, AnalysisResult, PredicateExceptions, NearMiss, Anchor, RowLayout } from '../core/types';
+import {
+    parseExpression, compileExpression, compileCondition, compileCellExpression, printExpression,
+    anyOf, allOf, substitute, collectVariables, bindDimensions, expressionSize, cellsCondition, DERIVED_VARIABLES, ExprNode
+} from '../core/Expression';
+import { ExpressionSynthesizer } from './ExpressionSynthesizer';
+
+export interface AnalyzerOptions {
+    /** Describe mirror-symmetric drawings by one half / quadrant (default true) */
+    foldSymmetry?: boolean;
+    /** Accept a parametric predicate off by up to this many cells (default 0: exact only) */
+    tolerance?: number;
+    /** Time allowed for the expression search before giving up on a character (default 200, 0 disables) */
+    synthesisBudgetMs?: number;
+    /** Candidate picked by hand per character, by expression (falls back to the best when gone) */
+    choices?: Record<string, string>;
+    /** How specific row / column numbers must be written, overriding the guesses below */
+    anchors?: Anchor[];
+}
+
+/** What a number in an expression stands for: a row / column, one past the last one, or a length or offset (never anchored) */
+type ValueRole = 'position' | 'end' | 'amount';
+
+/** A character (or a run of positional ones) with its candidate predicates, best first */
+interface RankedEntry {
+    char: string;
+    cells: GridCoord[];
+    ranked: Predicate[];
+}
 
 export class PatternAnalyzer {
+    /** Beyond this many characters the search over chain orders is skipped */
+    private static readonly MAX_ORDERED_CHARS = 4;
+
+    /** Beyond this many stretches of rows the loops stop reading like a textbook exercise */
+    private static readonly MAX_ROW_STRETCHES = 4;
+
     private grid: Grid;
     private H: number;
     private W: number;
+    private options: Required<AnalyzerOptions>;
 
-    constructor(grid: Grid) {
+    constructor(grid: Grid, options: AnalyzerOptions = {}) {
         this.grid = grid;
         this.H = grid.rows;
         this.W = grid.cols;
+        this.options = { foldSymmetry: true, tolerance: 0, synthesisBudgetMs: 200, choices: {}, anchors: [], ...options };
     }
 
     /** Main analysis entry point */
     analyze(): AnalysisResult {
-        const cellsByChar = this.grid.getCellsByChar();
+        return this.analyzeGroups([{ analyzer: this, cellsByChar: this.grid.getCellsByChar() }]);
+    }
+
+    /**
+     * Analyze a frame drawn over a background layer, as the composite the
+     * program should print. Characters of the frame come first in the if/else
+     * chain; characters only in the background follow and are matched against
+     * the whole background layer, since cells hidden under the frame never
+     * reach their branch.
+     */
+    static analyzeLayers(foreground: Grid, background: Grid, options: AnalyzerOptions = {}): AnalysisResult {
+        const composite = Grid.compose(background, foreground);
+        const front = foreground.getCellsByChar();
+        const layerChars = (grid: Grid, inFront: boolean) =>
+            new Map([...grid.getCellsByChar()].filter(([char]) => front.has(char) === inFront));
+
+        return new PatternAnalyzer(composite, options).analyzeGroups([
+            { analyzer: new PatternAnalyzer(composite, options), cellsByChar: layerChars(composite, true) },
+            { analyzer: new PatternAnalyzer(background, options), cellsByChar: layerChars(background, false) },
+        ]);
+    }
+
+    /** Analyze characters in chain order, each group by the analyzer of its own layer */
+    private analyzeGroups(groups: Array<{ analyzer: PatternAnalyzer; cellsByChar: Map<string, GridCoord[]> }>): AnalysisResult {
         const predicates: Predicate[] = [];
+        const candidates = new Map<string, Predicate[]>();
         const warnings: string[] = [];
         let isFullyParametric = true;
 
-        for (const [char, cells] of cellsByChar) {
-            const predicate = this.discoverPredicate(cells, char);
+        const nearMisses = new Map<string, NearMiss[]>();
+        const entries = groups.flatMap(({ analyzer, cellsByChar }) =>
+            analyzer.orderChain(analyzer.rankCharacters(cellsByChar)).map(entry => ({ ...entry, analyzer })));
+
+        for (const { char, cells, ranked, analyzer } of entries) {
+            const predicate = ranked.find(p => p.expression === this.options.choices[char]) ?? ranked[0];
+            candidates.set(char, ranked);
             predicates.push(predicate);
 
+            if (predicate.afterChars) {
+                warnings.push(
+                    `Character '${char}': tested after ${predicate.afterChars.map(c => `'${c}'`).join(', ')}, ` +
+                    `so its condition may also cover their cells.`
+                );
+            }
+
+            if (predicate.exceptions) {
+                const { include, exclude } = predicate.exceptions;
+                warnings.push(
+                    `Character '${char}': ${predicate.type} with ${include.length + exclude.length} ` +
+                    `exception cell(s) (${exclude.length} missing, ${include.length} extra).`
+                );
+            }
+
             if (!predicate.isScalable) {
                 isFullyParametric = false;
-                warnings.push(
-                    `Character '${char}': Pattern could not be parameterized. ` +
-                    `Using coordinate set (${cells.length} points).`
+                warnings.push(predicate.type === 'coordinate_set'
+                    ? `Character '${char}': Pattern could not be parameterized. ` +
+                      `Using coordinate set (${cells.length} points).`
+                    : `Character '${char}': ${predicate.type} found at fixed positions. ` +
+                      `It will not move or grow with H/W.`
                 );
             }
+
+            if (!predicate.isScalable) {
+                const nearest = analyzer.nearestPatterns(cells, char);
+                if (nearest.length > 0) {
+                    nearMisses.set(char, nearest);
+                    warnings.push(`Character '${char}': closest patterns: ${nearest.map(PatternAnalyzer.describeNearMiss).join('; ')}.`);
+                }
+            }
         }
 
         if (!isFullyParametric) {
+            const fixed = predicates.filter(p => !p.isScalable);
+            const how = fixed.every(p => p.type === 'coordinate_set') ? 'use coordinate sets'
+                : fixed.some(p => p.type === 'coordinate_set') ? 'use coordinate sets or fixed positions'
+                : 'are drawn at fixed positions';
             warnings.push(
-                '\n⚠ WARNING: Some patterns use coordinate sets.\n' +
+                `\n⚠ WARNING: Some patterns ${how}.\n` +
                 'Changing H or W will NOT scale these patterns proportionally.'
             );
         }
 
-        return { predicates, warnings, isFullyParametric };
+        return { predicates, candidates, nearMisses, warnings, isFullyParametric };
+    }
+
+    /**
+     * Analyze the same pattern drawn at several sizes (the first grid is the
+     * one code is generated for). Each example is analyzed on its own; the
+     * numbers that differ between them are then fitted to H/W expressions
+     * that reproduce every example, so the result generalizes by evidence.
+     */
+    static analyzeExamples(grids: Grid[], options: AnalyzerOptions = {}): AnalysisResult {
+        const result = new PatternAnalyzer(grids[0], options).analyze();
+        if (grids.length < 2) return result;
+
+        // Anchors refer to the drawing being generated, not to the other examples
+        const analyzers = grids.map((g, i) => new PatternAnalyzer(g, { ...options, tolerance: 0, synthesisBudgetMs: 0, anchors: i === 0 ? options.anchors ?? [] : [] }));
+        const examples = analyzers.map(a => a.grid.getCellsByChar());
+
+        result.predicates = result.predicates.map(predicate => {
+            const { char } = predicate;
+            const ranked = result.candidates.get(char)!;
+            if (predicate !== ranked[0]) return predicate;  // Picked by hand
+            if (predicate.charExpression) return predicate;  // Shared by several characters
+            if (predicate.afterChars) return predicate;  // Only holds after other branches
+
+            if (examples.some(e => !e.has(char))) {
+                result.warnings.push(`Character '${char}': missing from some examples; using the current drawing only.`);
+                return predicate;
+            }
+
+            const perExample = analyzers.map((a, i) => a.discoverPredicate(examples[i].get(char)!, char));
+            const general = PatternAnalyzer.generalize(perExample, analyzers, examples.map(e => e.get(char)!));
+            if (!general) {
+                result.warnings.push(
+                    `Character '${char}': examples do not agree on one pattern; using the current drawing only.`
+                );
+                return predicate;
+            }
+
+            result.warnings.push(`Character '${char}': ${general.type} confirmed across ${grids.length} examples.`);
+            result.candidates.set(char, [general, ...ranked.filter(p => p.expression !== general.expression)]);
+            return general;
+        });
+
+        result.isFullyParametric = result.predicates.every(p => p.isScalable);
+        return result;
+    }
+
+    /** One predicate consistent with every example, or null */
+    private static generalize(
+        predicates: Predicate[],
+        analyzers: PatternAnalyzer[],
+        cells: GridCoord[][]
+    ): Predicate | null {
+        if (predicates.some(p => p.type === 'coordinate_set')) return null;
+
+        const consistent = (expression: string) =>
+            analyzers.every((a, i) => a.matchesCells(expression, cells[i]));
+
+        // Same structure in every example: fit the numbers that vary
+        const templates = predicates.map((p, i) => PatternAnalyzer.extractParameters(p.expression, analyzers[i]));
+        const shape = printExpression(templates[0].template);
+
+        if (templates.every(t => printExpression(t.template) === shape)) {
+            const bindings: Record<string, ExprNode> = {};
+            let fitted = true;
+
+            templates[0].values.forEach((_, k) => {
+                const observations = templates.map((t, i) => ({
+                    value: t.values[k],
+                    H: analyzers[i].H,
+                    W: analyzers[i].W
+                }));
+                const prefer = templates[0].dims[k];
+                const fit = PatternAnalyzer.fitParameter(observations, prefer);
+                if (fit) bindings[`$${k}`] = fit;
+                else fitted = false;
+            });
+
+            if (fitted) {
+                const expression = printExpression(substitute(templates[0].template, bindings));
+                if (consistent(expression)) {
+                    return {
+                        ...predicates[0],
+                        expression,
+                        isScalable: /[HW]/.test(expression) || predicates[0].isScalable,
+                        confidence: 1.0
+                    };
+                }
+            }
+        }
+
+        // Otherwise one example's own guess may already hold for all of them
+        const verbatim = predicates.find(p => consistent(p.expression));
+        return verbatim ? { ...verbatim, confidence: 1.0 } : null;
+    }
+
+    /**
+     * Describe an animation with one predicate per character over r, c and
+     * the frame number t: the numbers of one pattern changing by a fixed step
+     * each frame (moving or growing), the first frame's cells shifted a fixed
+     * step each frame, or the first frame turned a quarter or half turn each
+     * frame. Null when nothing moves or some character fits none of these.
+     * `analyses` are the frames' own analyses when the caller already has
+     * them (their candidates are reused); otherwise each frame is analyzed
+     * here, without the expression search.
+     */
+    static analyzeMotion(frames: Grid[], options: AnalyzerOptions = {}, analyses?: AnalysisResult[]): AnalysisResult | null {
+        if (frames.length < 2) return null;
+
+        const analyzers = frames.map((g, i) => new PatternAnalyzer(g, { ...options, tolerance: 0, synthesisBudgetMs: 0, anchors: i === 0 ? options.anchors ?? [] : [] }));
+        const candidates = (analyses ?? analyzers.map(a => a.analyze())).map(analysis => analysis.candidates);
+        const perFrame = analyzers.map(a => a.grid.getCellsByChar());
+        const predicates: Predicate[] = [];
+        const warnings: string[] = [];
+        let moves = false;
+
+        for (const char of new Set(perFrame.flatMap(cellsByChar => [...cellsByChar.keys()]))) {
+            if (perFrame.some(cellsByChar => !cellsByChar.has(char))) return null;  // Appears or disappears
+
+            const ranked = candidates.map(byChar => byChar.get(char) ?? []);
+            const predicate = PatternAnalyzer.fitMotion(char, analyzers, perFrame.map(cellsByChar => cellsByChar.get(char)!), ranked);
+            if (!predicate) return null;
+            if (collectVariables(parseExpression(predicate.expression)).has('t')) {
+                moves = true;
+                warnings.push(`Character '${char}': ${predicate.type} changing with frame t.`);
+            }
+            predicates.push(predicate);
+        }
+        if (!moves) return null;
+
+        return {
+            predicates,
+            candidates: new Map(predicates.map(p => [p.char, [p]])),
+            nearMisses: new Map(),
+            warnings,
+            isFullyParametric: predicates.every(p => p.isScalable),
+        };
+    }
+
+    /** One predicate over r, c and t selecting a character's cells in every frame (given its candidates in each), or null */
+    private static fitMotion(char: string, analyzers: PatternAnalyzer[], cells: GridCoord[][], candidates: Predicate[][]): Predicate | null {
+        const t: ExprNode = { kind: 'var', name: 't' };
+        const { H, W } = analyzers[0];
+        const inEveryFrame = (node: ExprNode) => analyzers.every((a, frame) =>
+            a.matchesCells(printExpression(substitute(node, { t: { kind: 'num', value: frame } })), cells[frame]));
+        // Only a scalable fit keeps H and W; a fixed one is written as drawn
+        const settle = (node: ExprNode, isScalable: boolean, params: string[]) => ({
+            expression: printExpression(isScalable ? node : bindDimensions(node, H, W)),
+            params: isScalable ? params : [],
+            isScalable,
+        });
+        const stepped = (node: ExprNode, step: number): ExprNode => {
+            if (step === 0) return node;
+            const delta: ExprNode = Math.abs(step) === 1 ? t : { kind: 'binary', op: '*', left: { kind: 'num', value: Math.abs(step) }, right: t };
+            if (node.kind === 'num' && node.value === 0) return step > 0 ? delta : { kind: 'unary', op: '-', arg: delta };
+            return { kind: 'binary', op: step > 0 ? '+' : '-', left: node, right: delta };
+        };
+
+        // The same pattern in every frame, its numbers changing by a fixed step
+        const ranked = analyzers.map((a, frame) =>
+            candidates[frame]
+                .filter(p => p.type !== 'coordinate_set' && !p.exceptions && !p.afterChars && !p.charExpression)
+                .filter(p => a.matchesCells(p.expression, cells[frame]))
+                .map(p => ({ predicate: p, ...PatternAnalyzer.extractParameters(p.expression, a) })));
+        for (const first of ranked[0]) {
+            const shape = printExpression(first.template);
+            const matches = ranked.map(candidates => candidates.find(c => printExpression(c.template) === shape));
+            if (matches.some(m => !m)) continue;
+
+            const bindings: Record<string, ExprNode> = {};
+            const fitted = first.values.every((value, k) => {
+                const step = matches[1]!.values[k] - value;
+                if (!matches.every((m, frame) => m!.values[k] === value + step * frame)) return false;
+                bindings[`$${k}`] = stepped(first.nodes[k], step);
+                return true;
+            });
+            if (!fitted) continue;
+
+            const node = substitute(first.template, bindings);
+            if (!inEveryFrame(node)) continue;
+
+            const moving = (k: number) => matches[1]!.values[k] !== first.values[k];
+            const isScalable = first.predicate.isScalable && !PatternAnalyzer.mixesBounds(first.template, first.nodes, moving);
+            return { ...first.predicate, ...settle(node, isScalable, first.predicate.params), confidence: 1.0 };
+        }
+
+        // Any shape of the first frame, shifted a fixed step each frame
+        const baseEntry = ranked[0].find(c => ![...collectVariables(c.template)].some(v => v in DERIVED_VARIABLES));
+        const base = baseEntry?.predicate;
+        const baseNode = base ? parseExpression(base.expression) : cellsCondition(cells[0]);
+        const type = base ? base.type : 'moving_cells';
+        const topLeft = (frameCells: GridCoord[]) => ({
+            row: Math.min(...frameCells.map(cell => cell.row)),
+            col: Math.min(...frameCells.map(cell => cell.col)),
+        });
+        const dr = topLeft(cells[1]).row - topLeft(cells[0]).row;
+        const dc = topLeft(cells[1]).col - topLeft(cells[0]).col;
+        const shifted = substitute(baseNode, {
+            r: stepped({ kind: 'var', name: 'r' }, -dr),
+            c: stepped({ kind: 'var', name: 'c' }, -dc),
+        });
+        if ((dr !== 0 || dc !== 0) && inEveryFrame(shifted)) {
+            const moving = (_: number, axis: string) => (axis.includes('r') && dr !== 0) || (axis.includes('c') && dc !== 0);
+            const isScalable = !!baseEntry && baseEntry.predicate.isScalable && !PatternAnalyzer.mixesBounds(baseEntry.template, baseEntry.nodes, moving);
+            return { type, char, ...settle(shifted, isScalable, ['H', 'W']), confidence: 1.0 };
+        }
+
+        // The first frame turned about the center: quarter turns need a square grid
+        const turns: Array<Record<string, ExprNode>> = [
+            {},
+            { r: parseExpression('W-1-c'), c: parseExpression('r') },
+            { r: parseExpression('H-1-r'), c: parseExpression('W-1-c') },
+            { r: parseExpression('c'), c: parseExpression('H-1-r') },
+        ];
+        for (const quarter of H === W ? [1, 3, 2] : [2]) {
+            const period = quarter === 2 ? 2 : 4;
+            const rotating = anyOf(Array.from({ length: period }, (_, j) => allOf([
+                parseExpression(`t % ${period} == ${j}`),
+                substitute(baseNode, turns[(quarter * j) % 4]),
+            ])));
+            if (inEveryFrame(rotating)) {
+                return { type: 'rotating', char, expression: printExpression(rotating), params: ['H', 'W'], isScalable: base?.isScalable ?? false, confidence: 1.0 };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Whether an axis with a moving bound measures its bounds in different ways,
+     * one from H or W and another as drawn (c >= W/4 + t && c < 3 + t), so the
+     * shape would stretch or shrink at any other size. Placeholders compared
+     * against r alone belong to the row axis, against c alone to the column
+     * axis, and against both (a moving ellipse) to one shared group.
+     */
+    private static mixesBounds(template: ExprNode, nodes: ExprNode[], moving: (k: number, axis: string) => boolean): boolean {
+        const axes = new Map<string, number[]>();
+        const walk = (node: ExprNode): void => {
+            if (node.kind === 'binary' && ['==', '!=', '<', '<=', '>', '>='].includes(node.op)) {
+                const variables = [...collectVariables(node)];
+                const axis = variables.filter(v => v === 'r' || v === 'c').join('');
+                if (!axis) return;
+                const placeholders = variables.filter(v => v.startsWith('$')).map(v => Number(v.slice(1)));
+                axes.set(axis, [...(axes.get(axis) ?? []), ...placeholders]);
+                return;
+            }
+            if (node.kind === 'unary') walk(node.arg);
+            if (node.kind === 'binary') [node.left, node.right].forEach(walk);
+            if (node.kind === 'call') node.args.forEach(walk);
+        };
+        walk(template);
+
+        return [...axes].some(([axis, bounds]) =>
+            bounds.some(k => moving(k, axis)) &&
+            new Set(bounds.map(k => collectVariables(nodes[k]).size > 0)).size > 1);
+    }
+
+    /**
+     * Describe a drawing of one character whose every row is a single
+     * unbroken run as loops per row: so many spaces, then so many copies of
+     * the character, both changing by a fixed step from row to row. Rows
+     * split where the step changes (the two halves of a diamond). Null unless
+     * those loops print the drawing exactly.
+     */
+    static analyzeRows(grid: Grid, options: AnalyzerOptions = {}): RowLayout | null {
+        const cellsByChar = grid.getCellsByChar();
+        if (cellsByChar.size !== 1) return null;
+
+        const [[char, cells]] = cellsByChar;
+        if (char === ' ') return null;
+        return new PatternAnalyzer(grid, options).rowLayout(char, cells);
+    }
+
+    /**
+     * Replace every maximal sub-expression that depends only on H/W (a parameter
+     * like H-1, W/2 or 3) with a placeholder, recording its value in this example.
+     */
+    private static extractParameters(
+        expression: string,
+        analyzer: PatternAnalyzer
+    ): { template: ExprNode; values: number[]; dims: Array<'H' | 'W'>; nodes: ExprNode[] } {
+        const values: number[] = [];
+        const dims: Array<'H' | 'W'> = [];
+        const nodes: ExprNode[] = [];
+        const env = { H: analyzer.H, W: analyzer.W };
+
+        const walk = (node: ExprNode): ExprNode => {
+            const vars = collectVariables(node);
+            if ([...vars].every(v => v === 'H' || v === 'W')) {
+                values.push(compileExpression(node)(env));
+                dims.push(vars.has('W') && !vars.has('H') ? 'W' : 'H');
+                nodes.push(node);
+                return { kind: 'var', name: `$${values.length - 1}` };
+            }
+            switch (node.kind) {
+                case 'unary': return { ...node, arg: walk(node.arg) };
+                case 'binary': return { ...node, left: walk(node.left), right: walk(node.right) };
+                case 'call': return { ...node, args: node.args.map(walk) };
+                default: return node;
+            }
+        };
+
+        return { template: walk(parseExpression(expression)), values, dims, nodes };
+    }
+
+    /**
+     * Simplest form reproducing a parameter in every example:
+     * a constant, then D + k, D/2 + k, (D-1)/2 + k, D/3 + k, D/4 + k.
+     */
+    private static fitParameter(
+        observations: Array<{ value: number; H: number; W: number }>,
+        prefer: 'H' | 'W'
+    ): ExprNode | null {
+        const first = observations[0].value;
+        if (observations.every(o => o.value === first)) return { kind: 'num', value: first };
+
+        const forms: Array<{ text: string; of: (d: number) => number }> = [
+            { text: 'D', of: d => d },
+            { text: 'D/2', of: d => Math.trunc(d / 2) },
+            { text: '(D-1)/2', of: d => Math.trunc((d - 1) / 2) },
+            { text: 'D/3', of: d => Math.trunc(d / 3) },
+            { text: 'D/4', of: d => Math.trunc(d / 4) },
+        ];
+
+        for (const dim of prefer === 'H' ? ['H', 'W'] as const : ['W', 'H'] as const) {
+            for (const form of forms) {
+                const offset = first - form.of(observations[0][dim]);
+                if (!observations.every(o => form.of(o[dim]) + offset === o.value)) continue;
+
+                const base = form.text.replace('D', dim);
+                const text = offset === 0 ? base : offset > 0 ? `${base}+${offset}` : `${base}-${-offset}`;
+                return parseExpression(text);
+            }
+        }
+        return null;
+    }
+
+    /** Ranked candidates per character; digits or letters that count with the position share one entry */
+    private rankCharacters(cellsByChar: Map<string, GridCoord[]>): RankedEntry[] {
+        const positional = this.findPositionalChars(cellsByChar);
+        const entries: RankedEntry[] = [];
+
+        for (const [char, cells] of cellsByChar) {
+            if (positional?.chars.includes(char)) {
+                if (char === positional.chars[0]) entries.push({ char, cells: positional.cells, ranked: positional.ranked });
+                continue;
+            }
+            entries.push({ char, cells, ranked: this.discoverCandidates(cells, char) });
+        }
+        return entries;
+    }
+
+    /**
+     * Order the if/else chain so earlier branches simplify later ones. A
+     * character tested after others may also select their cells, since those
+     * never reach its branch: with a '#' border first, a '.' fill inside is
+     * just `true`. Orders are searched by the set of characters already
+     * placed; the drawn order stays unless another gives a strictly smaller
+     * program, and a new chain is only kept if it reproduces the drawing.
+     */
+    private orderChain(entries: RankedEntry[]): RankedEntry[] {
+        const n = entries.length;
+        if (n < 2 || n > PatternAnalyzer.MAX_ORDERED_CHARS) return entries;
+
+        const regions = new Map<number, Predicate[]>();
+        const regionCandidates = (i: number, placed: number): Predicate[] => {
+            const key = placed * n + i;
+            if (!regions.has(key)) regions.set(key, this.regionCandidates(entries, i, placed));
+            return regions.get(key)!;
+        };
+
+        // The predicate an entry gets after the placed ones: the hand pick if it still applies, else the smallest
+        const pick = (i: number, placed: number): { predicate: Predicate; cost: number } => {
+            const { char, cells, ranked } = entries[i];
+            const options = [ranked[0], ...regionCandidates(i, placed)];
+            const chosen = this.options.choices[char];
+            const byHand = chosen === undefined ? undefined : [...ranked, ...options].find(p => p.expression === chosen);
+            if (chosen !== undefined && byHand) return { predicate: byHand, cost: this.predicateCost(byHand, cells) };
+
+            const costs = options.map(p => this.predicateCost(p, cells));
+            const best = costs.indexOf(Math.min(...costs));
+            // A hand pick that needs another order makes this one worse
+            return { predicate: options[best], cost: costs[best] + (chosen !== undefined ? 1000 : 0) };
+        };
+
+        // Cheapest program placing each subset of characters first
+        const full = (1 << n) - 1;
+        const cost = new Array<number>(full + 1).fill(Infinity);
+        const last = new Array<number>(full + 1).fill(-1);
+        cost[0] = 0;
+        for (let placed = 0; placed < full; placed++) {
+            if (cost[placed] === Infinity) continue;
+            for (let i = 0; i < n; i++) {
+                if (placed & (1 << i)) continue;
+                const next = placed | (1 << i);
+                const total = cost[placed] + pick(i, placed).cost;
+                if (total < cost[next]) {
+                    cost[next] = total;
+                    last[next] = i;
+                }
+            }
+        }
+
+        let drawnCost = 0;
+        entries.forEach((_, i) => (drawnCost += pick(i, (1 << i) - 1).cost));
+        const order: number[] = [];
+        if (cost[full] < drawnCost) {
+            for (let placed = full; placed > 0; placed &= ~(1 << last[placed])) order.unshift(last[placed]);
+        } else {
+            order.push(...entries.map((_, i) => i));
+        }
+
+        let placed = 0;
+        const chain = order.map(i => {
+            const { predicate } = pick(i, placed);
+            const others = regionCandidates(i, placed).filter(p => p !== predicate);
+            placed |= 1 << i;
+            return { entry: entries[i], predicate, others };
+        });
+
+        const changed = order.some((i, k) => i !== k) || chain.some(({ predicate }) => predicate.afterChars);
+        if (changed && !this.reproducesDrawing(chain)) return entries;
+
+        return chain.map(({ entry, predicate, others }) => ({
+            ...entry,
+            ranked: predicate.afterChars ? [predicate, ...entry.ranked, ...others] : [...entry.ranked, ...others]
+        }));
+    }
+
+    /** Predicates for an entry that may also select the cells of the already placed entries */
+    private regionCandidates(entries: RankedEntry[], i: number, placed: number): Predicate[] {
+        const { char, cells, ranked } = entries[i];
+        if (placed === 0 || ranked[0].charExpression) return [];
+
+        const before = entries.filter((_, k) => placed & (1 << k));
+        const afterChars = before.map(e => e.char);
+        const seen = new Set(ranked.map(p => p.expression));
+        return this.matchAllDetectors([...cells, ...before.flatMap(e => e.cells)], char)
+            .filter(p => !seen.has(p.expression) && seen.add(p.expression))
+            .map(p => ({ ...p, afterChars }));
+    }
+
+    /** Size of the condition a predicate prints; fixed cells cost a comparison pair each */
+    private predicateCost(predicate: Predicate, cells: GridCoord[]): number {
+        if (predicate.type === 'coordinate_set') return cells.length * 7;
+        return expressionSize(parseExpression(predicate.expression));
+    }
+
+    /** Whether an if/else chain of these predicates prints exactly the drawing */
+    private reproducesDrawing(chain: Array<{ entry: RankedEntry; predicate: Predicate }>): boolean {
+        const key = (c: GridCoord) => `${c.row},${c.col}`;
+        const drawn = new Set(chain.flatMap(({ entry }) => entry.cells.map(key)));
+        const branches = chain.map(({ entry, predicate }) => {
+            const own = new Set(entry.cells.map(key));
+            const test = predicate.type === 'coordinate_set'
+                ? (r: number, c: number) => own.has(`${r},${c}`)
+                : compileCondition(predicate.expression);
+            const print = predicate.charExpression
+                ? compileCellExpression(predicate.charExpression)
+                : () => predicate.char.charCodeAt(0);
+            return { test, print };
+        });
+
+        for (let r = 0; r < this.H; r++) {
+            for (let c = 0; c < this.W; c++) {
+                const branch = branches.find(b => b.test(r, c, this.H, this.W));
+                const expected = drawn.has(`${r},${c}`) ? this.grid.getCell(r, c)?.char : undefined;
+                const printed = branch ? String.fromCharCode(branch.print(r, c, this.H, this.W)) : undefined;
+                if (printed !== expected) return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Digits or letters whose value follows the position, as in rows 1 22 333
+     * or columns A B C. Their cells are described as one shape that prints a
+     * computed character, e.g. '0' + (r + 1) % 10.
+     */
+    private findPositionalChars(
+        cellsByChar: Map<string, GridCoord[]>
+    ): { chars: string[]; cells: GridCoord[]; ranked: Predicate[] } | null {
+        const classes = [
+            { pattern: /^[0-9]$/, base: '0', modulus: 10 },
+            { pattern: /^[A-Z]$/, base: 'A', modulus: 26 },
+            { pattern: /^[a-z]$/, base: 'a', modulus: 26 },
+        ];
+
+        for (const { pattern, base, modulus } of classes) {
+            const chars = [...cellsByChar.keys()].filter(ch => pattern.test(ch));
+            if (chars.length < 2) continue;
+
+            const cells = chars.flatMap(ch => cellsByChar.get(ch)!);
+            const values = chars.flatMap(ch => cellsByChar.get(ch)!.map(() => ch.charCodeAt(0) - base.charCodeAt(0)));
+
+            const computed = this.positionalCharExpression(cells, values, base, modulus);
+            if (!computed) continue;
+
+            const ranked = this.discoverCandidates(cells, chars[0])
+                .filter(p => p.type !== 'coordinate_set')
+                .map(p => ({ ...p, charExpression: computed.expression, isScalable: p.isScalable && computed.isScalable }));
+            if (ranked.length > 0) return { chars, cells, ranked };
+        }
+        return null;
+    }
+
+    /**
+     * base + (a*r + b*c + k) % modulus reproducing every value, with a, b in {-1, 0, 1},
+     * or base + (ring + k) % modulus for layers counted from the edge
+     */
+    private positionalCharExpression(
+        cells: GridCoord[], values: number[], base: string, modulus: number
+    ): { expression: string; isScalable: boolean } | null {
+        const slopes = [[1, 0, 0], [0, 1, 0], [1, 1, 0], [-1, 0, 0], [0, -1, 0], [1, -1, 0], [-1, 1, 0], [-1, -1, 0], [0, 0, 1]];
+        const mod = (x: number) => ((x % modulus) + modulus) % modulus;
+
+        for (const [a, b, e] of slopes) {
+            const raw = cells.map(cell => a * cell.row + b * cell.col + e * this.ringOf(cell.row, cell.col));
+            let k = values[0] - raw[0];
+            if (!raw.every((x, i) => mod(x + k) === values[i])) continue;
+
+            // Always wrap, since a larger grid runs past 9 or Z even where the drawing does not.
+            // The smallest k keeping the term, and so C's %, non-negative across the grid
+            const lowest = Math.min(0, a * (this.H - 1)) + Math.min(0, b * (this.W - 1));
+            k = mod(k + lowest) - lowest;
+
+            const positive = [a > 0 ? 'r' : '', b > 0 ? 'c' : '', e > 0 ? 'ring' : ''].filter(t => t);
+            const negative = [a < 0 ? 'r' : '', b < 0 ? 'c' : ''].filter(t => t);
+            const offset = a < 0 && b === 0 ? this.parameterizeValue(k, this.H, 'H', { role: 'amount' })
+                : b < 0 && a === 0 ? this.parameterizeValue(k, this.W, 'W', { role: 'amount' })
+                : String(k);
+            const leading = positive.length === 0 ? [offset] : k === 0 ? positive : [...positive, offset];
+            const sum = [leading.join(' + '), ...negative].join(' - ');
+
+            const expression = printExpression(parseExpression(`'${base}' + (${sum}) % ${modulus}`));
+            const compute = compileCellExpression(expression);
+            const codes = values.map(v => v + base.charCodeAt(0));
+            if (!cells.every((cell, i) => compute(cell.row, cell.col, this.H, this.W) === codes[i])) continue;
+
+            // A subtracted r or c only stays covered on a larger grid when k grows with H or W
+            return { expression, isScalable: negative.length === 0 || /[HW]/.test(offset) };
+        }
+        return null;
     }
 
     /** Attempt to find the best predicate for a set of cells */
     private discoverPredicate(cells: GridCoord[], char: string): Predicate {
-        // Try each detector in priority order
-        const detectors: Array<() => Predicate | null> = [
+        return this.discoverCandidates(cells, char)[0];
+    }
+
+    /**
+     * Every reading of a set of cells, best first. The order is the detection
+     * priority: exact shapes, then searches, then approximations, then fixed
+     * positions, with the coordinate set always last.
+     */
+    private discoverCandidates(cells: GridCoord[], char: string): Predicate[] {
+        const candidates = this.matchAllDetectors(cells, char);
+
+        // Combinations of primitives (X in a box, two separate shapes...).
+        // One with fixed pieces is a last resort, after the searches below
+        const composite = candidates.length === 0 ? this.tryComposite(cells, char) : null;
+        if (composite && composite.isScalable) candidates.push(composite);
+
+        // Mirror-symmetric drawings: describe one half and fold the other onto it
+        const folded = candidates.length === 0 ? this.tryFolded(cells, char) : null;
+        if (folded && folded.isScalable) candidates.push(folded);
+
+        // No known shape: search for the smallest expression that fits exactly
+        if (candidates.length === 0) {
+            const synthesized = this.trySynthesis(cells, char);
+            if (synthesized) candidates.push(synthesized);
+        }
+
+        // Almost a clean pattern: keep it and list the odd cells. Within the tolerance
+        // this beats a composite that makes a piece of every stray cell
+        if (candidates.every(c => c.type === 'composite')) {
+            const nearMiss = this.tryNearMiss(cells, char);
+            if (nearMiss) candidates.unshift(nearMiss);
+        }
+
+        if (composite && !composite.isScalable) candidates.push(composite);
+        if (folded && !folded.isScalable) candidates.push(folded);
+
+        // The same shapes pinned where they were drawn (r == 5 instead of r == H/2)
+        for (const candidate of [...candidates]) {
+            const fixed = this.fixedVariant(candidate);
+            if (fixed) candidates.push(fixed);
+        }
+
+        // Fallback: coordinate set
+        candidates.push(this.fallbackCoordinateSet(cells, char));
+
+        const seen = new Set<string>();
+        return candidates.filter(c => !seen.has(c.expression) && seen.add(c.expression));
+    }
+
+    /** Run the single-shape detectors in priority order */
+    private matchDetectors(cells: GridCoord[], char: string): Predicate | null {
+        for (const detector of this.detectors(cells, char)) {
+            const result = detector();
+            if (result) return result;
+        }
+        return null;
+    }
+
+    /** Every single-shape detector that matches, in priority order */
+    private matchAllDetectors(cells: GridCoord[], char: string): Predicate[] {
+        const matches: Predicate[] = [];
+        for (const detector of this.detectors(cells, char)) {
+            const result = detector();
+            if (result) matches.push(result);
+        }
+        return matches;
+    }
+
+    private detectors(cells: GridCoord[], char: string): Array<() => Predicate | null> {
+        return [
             () => this.tryFill(cells, char),
             () => this.tryBorder(cells, char),
             () => this.tryDiagonal(cells, char),
             () => this.tryAntiDiagonal(cells, char),
             () => this.tryHorizontalLine(cells, char),
             () => this.tryVerticalLine(cells, char),
+            () => this.tryLine(cells, char),
             () => this.tryFilledRectangle(cells, char),
+            () => this.tryFrame(cells, char),
+            () => this.tryTriangularShape(cells, char),
+            () => this.tryEllipse(cells, char),
             () => this.tryCheckerboard(cells, char),
+            () => this.tryPeriodic(cells, char),
+            () => this.tryRings(cells, char),
+            () => this.trySpiral(cells, char),
+            () => this.tryBitwise(cells, char),
         ];
+    }
 
-        for (const detector of detectors) {
-            const result = detector();
-            if (result) return result;
-        }
+    /** An H/W-relative predicate with the dimensions replaced by their current values */
+    private fixedVariant(predicate: Predicate): Predicate | null {
+        const node = parseExpression(predicate.expression);
+        const variables = collectVariables(node);
+        if (!variables.has('H') && !variables.has('W')) return null;
 
-        // Fallback: coordinate set
-        return this.fallbackCoordinateSet(cells, char);
+        // Folded coordinates are computed from H and W in the generated code anyway
+        if ([...variables].some(v => v in DERIVED_VARIABLES)) return null;
+
+        return {
+            ...predicate,
+            expression: printExpression(bindDimensions(node, this.H, this.W)),
+            params: [],
+            isScalable: false,
+            confidence: predicate.confidence * 0.5
+        };
     }
 
     /** Check if ALL cells are filled */
@@ -205,6 +926,128 @@ export class PatternAnalyzer {
         };
     }
 
+    /**
+     * Check for a straight segment at any slope: an exact relation such as
+     * r - c == 2 or r == 2 * c, or a rounded line between two endpoints
+     * as drawn by the line tool (StrokeSampler.getLinePoints)
+     */
+    private tryLine(cells: GridCoord[], char: string): Predicate | null {
+        if (cells.length < 2) return null;
+
+        const rows = cells.map(c => c.row), cols = cells.map(c => c.col);
+        const minR = Math.min(...rows), maxR = Math.max(...rows);
+        const minC = Math.min(...cols), maxC = Math.max(...cols);
+        if (minR === maxR || minC === maxC) return null;
+
+        // Endpoints are the single cells at both ends of the longer extent
+        const byCol = maxC - minC >= maxR - minR;
+        const atMin = cells.filter(c => (byCol ? c.col === minC : c.row === minR));
+        const atMax = cells.filter(c => (byCol ? c.col === maxC : c.row === maxR));
+        if (atMin.length !== 1 || atMax.length !== 1) return null;
+        const [start, end] = [atMin[0], atMax[0]];
+
+        const r0 = this.parameterizeValue(start.row, this.H, 'H');
+        const r1 = this.parameterizeValue(end.row, this.H, 'H');
+        const c0 = this.parameterizeValue(start.col, this.W, 'W');
+        const c1 = this.parameterizeValue(end.col, this.W, 'W');
+
+        // Limit the line to its drawn extent, unless the grid edge already does
+        const lo = byCol ? minC : minR, hi = byCol ? maxC : maxR;
+        const v = byCol ? 'c' : 'r';
+        const dimension = byCol ? this.W : this.H, dimName = byCol ? 'W' : 'H';
+        const lower = `${v} >= ${this.parameterizeValue(lo, dimension, dimName)}`;
+        const upper = `${v} <= ${this.parameterizeValue(hi, dimension, dimName)}`;
+        const guards = ['', lower, upper, `${lower} && ${upper}`];
+
+        const endpoints = [r0, r1, c0, c1];
+        const params = ['H', 'W'].filter(d => endpoints.some(p => p.includes(d)));
+        const isScalable = endpoints.every(p => p === '0' || /[HW]/.test(p));
+        // A line from a literal endpoint stays where it was drawn, spans included
+        const make = (type: Predicate['type'], expression: string): Predicate => ({
+            type,
+            char,
+            expression: isScalable ? expression : printExpression(bindDimensions(parseExpression(expression), this.H, this.W)),
+            params: isScalable ? params : [],
+            isScalable,
+            confidence: isScalable ? 1.0 : 0.6
+        });
+
+        const guarded = (condition: string): string | null => {
+            for (const guard of guards) {
+                const expression = guard ? `${condition} && ${guard}` : condition;
+                if (this.matchesCells(expression, cells)) return expression;
+            }
+            return null;
+        };
+
+        const dr = end.row - start.row, dc = end.col - start.col;
+
+        // Exact relation p*r + q*c == k with small coefficients
+        const g = this.gcd(Math.abs(dr), Math.abs(dc));
+        const p = dc / g, q = -dr / g;
+        if (Math.abs(p) <= 3 && Math.abs(q) <= 3) {
+            const relation = this.linearRelation(p, q, p * start.row + q * start.col);
+            const expression = guarded(relation);
+            if (expression) {
+                const type = Math.abs(p) === 1 && Math.abs(q) === 1 ? (p === q ? 'anti_diagonal' : 'diagonal') : 'line';
+                return make(type, expression);
+            }
+        }
+
+        // Rounded line: |2 * cross product| stays within the major span (either sign of it will do)
+        const dRow = dr >= 0 ? this.spanBetween(r1, r0, start.row) : this.spanBetween(r0, r1, end.row);
+        const dCol = dc >= 0 ? this.spanBetween(c1, c0, start.col) : this.spanBetween(c0, c1, end.col);
+        const major = byCol ? dCol : dRow;
+        const offset = (variable: string, origin: string) => (origin === '0' ? variable : `(${variable} - ${this.group(origin)})`);
+        const cross = `${offset('r', r0)} * ${this.group(dCol)} ${dr * dc >= 0 ? '-' : '+'} ${offset('c', c0)} * ${this.group(dRow)}`;
+        const forms = [
+            `abs(2 * (${cross})) <= ${major}`,
+            `-${this.group(major)} < 2 * (${cross}) && 2 * (${cross}) <= ${major}`,
+            `-${this.group(major)} <= 2 * (${cross}) && 2 * (${cross}) < ${major}`,
+        ];
+        for (const form of forms) {
+            const expression = guarded(printExpression(parseExpression(form)));
+            if (expression) return make('line', expression);
+        }
+        return null;
+    }
+
+    /** p*r + q*c == k, written with both variables on the left only when the signs agree */
+    private linearRelation(p: number, q: number, k: number): string {
+        if (p < 0) [p, q, k] = [-p, -q, -k];
+        const term = (coef: number, name: string) => (coef === 1 ? name : `${coef} * ${name}`);
+
+        if (q > 0) return `${term(p, 'r')} + ${term(q, 'c')} == ${this.parameterizeSpan(k)}`;
+        if (p === 1 && q === -1) {
+            return k >= 0 ? `r - c == ${this.parameterizeSpan(k)}` : `c - r == ${this.parameterizeSpan(-k)}`;
+        }
+        const rhs = k === 0 ? term(-q, 'c') : k > 0 ? `${term(-q, 'c')} + ${k}` : `${term(-q, 'c')} - ${-k}`;
+        return `${term(p, 'r')} == ${rhs}`;
+    }
+
+    /** Distance from a parameterized position to an earlier one, which sits at `from` */
+    private spanBetween(to: string, fromParam: string, from: number): string {
+        if (fromParam === '0') return to;
+
+        // A literal inset from an edge-relative end folds into the edge offset: (W-1) - 2 is W-3
+        if (/^\d+$/.test(fromParam)) {
+            if (/^\d+$/.test(to)) return (Number(to) - from).toString();
+            if (/^[HW]$/.test(to)) return `${to}-${from}`;
+            const inset = /^([HW])-(\d+)$/.exec(to);
+            if (inset) return `${inset[1]}-${Number(inset[2]) + from}`;
+        }
+        return `${to} - ${this.group(fromParam)}`;
+    }
+
+    /** Parenthesize a parameter unless it is a single name or number */
+    private group(param: string): string {
+        return /^\w+$/.test(param) ? param : `(${param})`;
+    }
+
+    private gcd(a: number, b: number): number {
+        return b === 0 ? a : this.gcd(b, a % b);
+    }
+
     /** Check for filled rectangle region */
     private tryFilledRectangle(cells: GridCoord[], char: string): Predicate | null {
         if (cells.length === 0) return null;
@@ -233,9 +1076,9 @@ export class PatternAnalyzer {
 
         // Parameterize bounds
         const r1 = this.parameterizeValue(minR, this.H, 'H');
-        const r2 = this.parameterizeValue(maxR + 1, this.H, 'H');
+        const r2 = this.parameterizeValue(maxR + 1, this.H, 'H', { role: 'end' });
         const c1 = this.parameterizeValue(minC, this.W, 'W');
-        const c2 = this.parameterizeValue(maxC + 1, this.W, 'W');
+        const c2 = this.parameterizeValue(maxC + 1, this.W, 'W', { role: 'end' });
 
         const isScalable =
             r1.includes('H') || r2.includes('H') ||
@@ -251,44 +1094,1000 @@ export class PatternAnalyzer {
         };
     }
 
-    /** Check for checkerboard pattern */
-    private tryCheckerboard(cells: GridCoord[], char: string): Predicate | null {
-        // Expected: half the cells (rounded)
-        const expectedCount = Math.ceil((this.H * this.W) / 2);
-        if (Math.abs(cells.length - expectedCount) > 1) return null;
+    /**
+     * Check for a rectangular frame: a bounding box with one rectangular hole.
+     * Covers hollow rectangles at any inset, borders k cells thick and
+     * frames with uneven sides.
+     */
+    private tryFrame(cells: GridCoord[], char: string): Predicate | null {
+        if (cells.length === 0) return null;
 
-        // Check if all cells satisfy (r + c) % 2 == 0 or == 1
-        let evenCount = 0;
-        let oddCount = 0;
+        let minR = Infinity, maxR = -Infinity;
+        let minC = Infinity, maxC = -Infinity;
 
         for (const cell of cells) {
-            if ((cell.row + cell.col) % 2 === 0) evenCount++;
-            else oddCount++;
+            minR = Math.min(minR, cell.row);
+            maxR = Math.max(maxR, cell.row);
+            minC = Math.min(minC, cell.col);
+            maxC = Math.max(maxC, cell.col);
         }
 
-        if (evenCount === cells.length) {
-            return {
-                type: 'checkerboard',
-                char,
-                expression: '(r + c) % 2 == 0',
-                params: ['H', 'W'],
-                isScalable: true,
-                confidence: 1.0
-            };
-        }
+        if (maxR - minR < 2 || maxC - minC < 2) return null;
 
-        if (oddCount === cells.length) {
-            return {
-                type: 'checkerboard',
-                char,
-                expression: '(r + c) % 2 == 1',
-                params: ['H', 'W'],
-                isScalable: true,
-                confidence: 1.0
-            };
-        }
+        // Bounding box of the empty cells inside the frame
+        const cellSet = new Set(cells.map(c => `${c.row},${c.col}`));
+        let holeMinR = Infinity, holeMaxR = -Infinity;
+        let holeMinC = Infinity, holeMaxC = -Infinity;
+        let emptyCount = 0;
 
-        return null;
+        for (let r = minR; r <= maxR; r++) {
+            for (let c = minC; c <= maxC; c++) {
+                if (cellSet.has(`${r},${c}`)) continue;
+                emptyCount++;
+                holeMinR = Math.min(holeMinR, r);
+                holeMaxR = Math.max(holeMaxR, r);
+                holeMinC = Math.min(holeMinC, c);
+                holeMaxC = Math.max(holeMaxC, c);
+            }
+        }
+
+        if (emptyCount === 0) return null;
+
+        // The hole must be one solid rectangle, closed on every side
+        if (holeMinR === minR || holeMaxR === maxR || holeMinC === minC || holeMaxC === maxC) return null;
+        if (emptyCount !== (holeMaxR - holeMinR + 1) * (holeMaxC - holeMinC + 1)) return null;
+
+        const top = this.parameterizeValue(minR, this.H, 'H', { inset: true });
+        const bottom = this.parameterizeValue(maxR, this.H, 'H', { inset: true });
+        const left = this.parameterizeValue(minC, this.W, 'W', { inset: true });
+        const right = this.parameterizeValue(maxC, this.W, 'W', { inset: true });
+
+        const isHollow =
+            holeMinR === minR + 1 && holeMaxR === maxR - 1 &&
+            holeMinC === minC + 1 && holeMaxC === maxC - 1;
+
+        let expression: string;
+        let bounds = [top, bottom, left, right];
+
+        if (isHollow) {
+            expression =
+                `((r == ${top} || r == ${bottom}) && c >= ${left} && c <= ${right}) || ` +
+                `((c == ${left} || c == ${right}) && r >= ${top} && r <= ${bottom})`;
+        } else {
+            const holeTop = this.parameterizeValue(holeMinR, this.H, 'H', { inset: true });
+            const holeBottom = this.parameterizeValue(holeMaxR, this.H, 'H', { inset: true });
+            const holeLeft = this.parameterizeValue(holeMinC, this.W, 'W', { inset: true });
+            const holeRight = this.parameterizeValue(holeMaxC, this.W, 'W', { inset: true });
+            bounds = bounds.concat(holeTop, holeBottom, holeLeft, holeRight);
+
+            const outsideHole =
+                `r < ${holeTop} || r > ${holeBottom} || c < ${holeLeft} || c > ${holeRight}`;
+
+            // A frame flush with the grid edges needs no outer bounds
+            const isFullGrid = minR === 0 && maxR === this.H - 1 && minC === 0 && maxC === this.W - 1;
+            expression = isFullGrid
+                ? outsideHole
+                : `r >= ${top} && r <= ${bottom} && c >= ${left} && c <= ${right} && (${outsideHole})`;
+        }
+
+        const isScalable = bounds.some(b => b.includes('H') || b.includes('W'));
+
+        return {
+            type: isHollow ? 'hollow_rect' : 'frame',
+            char,
+            expression,
+            params: ['H', 'W'],
+            isScalable,
+            confidence: isScalable ? 1.0 : 0.7
+        };
+    }
+
+    /**
+     * Check for triangles, pyramids, hourglasses and diamonds, filled or outline.
+     * Candidates are anchored to the grid (apex on the centre column, corners
+     * on the edges) and each one is verified cell-for-cell.
+     */
+    private tryTriangularShape(cells: GridCoord[], char: string): Predicate | null {
+        if (cells.length < 3) return null;
+
+        for (const candidate of this.triangularCandidates(cells)) {
+            const node = parseExpression(candidate.expression);
+            const expression = printExpression(node);
+            if (!this.matchesCells(expression, cells)) continue;
+
+            // A shape scales when it is measured from the grid size, or cut
+            // straight through a corner (c <= r); any other offset stays as drawn
+            const variables = collectVariables(node);
+            const isScalable = variables.has('H') || variables.has('W') || !/\d/.test(expression);
+            return {
+                type: candidate.type,
+                char,
+                expression,
+                params: ['H', 'W'],
+                isScalable,
+                confidence: isScalable ? 1.0 : 0.7
+            };
+        }
+        return null;
+    }
+
+    /** Candidate expressions for the triangular families, filled form before outline */
+    private triangularCandidates(cells: GridCoord[]): Array<{ type: Predicate['type']; expression: string }> {
+        const candidates: Array<{ type: Predicate['type']; expression: string }> = [];
+
+        let minR = Infinity, maxR = -Infinity;
+        let minC = Infinity, maxC = -Infinity;
+        let minDiff = Infinity, maxDiff = -Infinity;
+        let minSum = Infinity, maxSum = -Infinity;
+
+        for (const cell of cells) {
+            minR = Math.min(minR, cell.row);
+            maxR = Math.max(maxR, cell.row);
+            minC = Math.min(minC, cell.col);
+            maxC = Math.max(maxC, cell.col);
+            minDiff = Math.min(minDiff, cell.col - cell.row);
+            maxDiff = Math.max(maxDiff, cell.col - cell.row);
+            minSum = Math.min(minSum, cell.row + cell.col);
+            maxSum = Math.max(maxSum, cell.row + cell.col);
+        }
+
+        const top = this.parameterizeValue(minR, this.H, 'H');
+        const bottom = this.parameterizeValue(maxR, this.H, 'H');
+        const left = this.parameterizeValue(minC, this.W, 'W');
+        const right = this.parameterizeValue(maxC, this.W, 'W');
+
+        // Right triangles: a 45-degree cut through one corner, legs on the edges
+        const offset = (value: number) =>
+            value === 0 ? '' : value > 0
+                ? ` + ${this.parameterizeValue(value, this.W, 'W', { role: 'amount' })}`
+                : ` - ${this.parameterizeValue(-value, this.W, 'W', { role: 'amount' })}`;
+        const sum = (value: number) => this.parameterizeSpan(value);
+
+        const rightTriangles = [
+            { filled: `c <= r${offset(maxDiff)}`, edge: `c == r${offset(maxDiff)}`, legs: [`c == ${left}`, `r == ${bottom}`] },
+            { filled: `c >= r${offset(minDiff)}`, edge: `c == r${offset(minDiff)}`, legs: [`r == ${top}`, `c == ${right}`] },
+            { filled: `r + c <= ${sum(maxSum)}`, edge: `r + c == ${sum(maxSum)}`, legs: [`r == ${top}`, `c == ${left}`] },
+            { filled: `r + c >= ${sum(minSum)}`, edge: `r + c == ${sum(minSum)}`, legs: [`r == ${bottom}`, `c == ${right}`] },
+        ];
+        for (const t of rightTriangles) {
+            candidates.push({ type: 'triangle', expression: t.filled });
+            candidates.push({ type: 'triangle', expression: `${t.filled} && (${[t.edge, ...t.legs].join(' || ')})` });
+        }
+
+        // Shapes symmetric about the centre column / row
+        for (const x of ['W/2', '(W-1)/2']) {
+            const dc = `abs(c - ${x})`;
+
+            const pyramid = minR === 0 ? 'r' : `r - ${top}`;
+            candidates.push({ type: 'pyramid', expression: `${dc} <= ${pyramid}` });
+            candidates.push({ type: 'pyramid', expression: `${dc} <= ${pyramid} && (${dc} == ${pyramid} || r == ${bottom})` });
+
+            const inverted = `${bottom} - r`;
+            candidates.push({ type: 'pyramid', expression: `${dc} <= ${inverted}` });
+            candidates.push({ type: 'pyramid', expression: `${dc} <= ${inverted} && (${dc} == ${inverted} || r == ${top})` });
+
+            for (const y of ['H/2', '(H-1)/2']) {
+                const dr = `abs(r - ${y})`;
+                candidates.push({ type: 'hourglass', expression: `${dc} <= ${dr}` });
+                candidates.push({
+                    type: 'hourglass',
+                    expression: `${dc} <= ${dr} && (${dc} == ${dr} || r == ${top} || r == ${bottom})`
+                });
+
+                // Diamond radius: the largest distance among the drawn cells
+                const cx = this.valueOf(x);
+                const cy = this.valueOf(y);
+                const radius = Math.max(...cells.map(cell => Math.abs(cell.row - cy) + Math.abs(cell.col - cx)));
+                const k = this.parameterizeSpan(radius);
+                candidates.push({ type: 'diamond', expression: `${dr} + ${dc} <= ${k}` });
+                candidates.push({ type: 'diamond', expression: `${dr} + ${dc} == ${k}` });
+            }
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Check for a filled or outlined ellipse as drawn by the circle tool.
+     * The tool tests ((c - cx) / rx)^2 + ((r - cy) / ry)^2 <= 1 for the
+     * dragged box; doubling every coordinate keeps that in integers:
+     *   X*X*RY*RY + Y*Y*RX*RX <= RX*RX*RY*RY   with X = 2*c - (c0 + c1), RX = c1 - c0.
+     * The outline keeps the band 0.7 <= dist <= 1. The products outgrow an
+     * int on large grids, so the C-family backends compute them in 64 bits.
+     */
+    private tryEllipse(cells: GridCoord[], char: string): Predicate | null {
+        if (cells.length < 4) return null;
+
+        let minR = Infinity, maxR = -Infinity;
+        let minC = Infinity, maxC = -Infinity;
+
+        for (const cell of cells) {
+            minR = Math.min(minR, cell.row);
+            maxR = Math.max(maxR, cell.row);
+            minC = Math.min(minC, cell.col);
+            maxC = Math.max(maxC, cell.col);
+        }
+
+        if (maxR === minR || maxC === minC) return null;
+
+        // The dragged box can be one cell wider than the cells it produced
+        for (const r0 of [minR, minR - 1]) {
+            for (const r1 of [maxR, maxR + 1]) {
+                for (const c0 of [minC, minC - 1]) {
+                    for (const c1 of [maxC, maxC + 1]) {
+                        if (r0 < 0 || c0 < 0 || r1 >= this.H || c1 >= this.W) continue;
+
+                        const x = this.ellipseAxis('c', c0, c1, this.W, 'W');
+                        const y = this.ellipseAxis('r', r0, r1, this.H, 'H');
+
+                        const lhs = `${x.offset} * ${x.offset} * ${y.radius} * ${y.radius} + ` +
+                            `${y.offset} * ${y.offset} * ${x.radius} * ${x.radius}`;
+                        const rhs = `${x.radius} * ${x.radius} * ${y.radius} * ${y.radius}`;
+
+                        const forms = [`${lhs} <= ${rhs}`, `10 * (${lhs}) >= 7 * ${rhs} && ${lhs} <= ${rhs}`];
+                        for (const form of forms) {
+                            const expression = printExpression(parseExpression(form));
+                            if (!this.matchesCells(expression, cells)) continue;
+
+                            const isScalable = x.isScalable || y.isScalable;
+                            return {
+                                type: 'ellipse',
+                                char,
+                                expression,
+                                params: ['H', 'W'],
+                                isScalable,
+                                confidence: x.isScalable && y.isScalable ? 1.0 : 0.7
+                            };
+                        }
+                    }
+                }
+            }
+        }
+        return null;
+    }
+
+    /** Doubled offset from the centre and doubled radius along one axis of an ellipse */
+    private ellipseAxis(
+        v: string, lo: number, hi: number, dimension: number, dimName: string
+    ): { offset: string; radius: string; isScalable: boolean } {
+        // Centred boxes keep their margin fixed and grow with the grid
+        if (lo + hi === dimension - 1) {
+            const margin = 2 * lo + 1;
+            return {
+                offset: `(2 * ${v} - ${dimName} + 1)`,
+                radius: `(${dimName}-${margin})`,
+                isScalable: true
+            };
+        }
+        return {
+            offset: `(2 * ${v} - ${lo + hi})`,
+            radius: `${hi - lo}`,
+            isScalable: false
+        };
+    }
+
+    /** Check for checkerboard pattern */
+    private tryCheckerboard(cells: GridCoord[], char: string): Predicate | null {
+        // Expected: half the cells (rounded)
+        const expectedCount = Math.ceil((this.H * this.W) / 2);
+        if (Math.abs(cells.length - expectedCount) > 1) return null;
+
+        // Check if all cells satisfy (r + c) % 2 == 0 or == 1
+        let evenCount = 0;
+        let oddCount = 0;
+
+        for (const cell of cells) {
+            if ((cell.row + cell.col) % 2 === 0) evenCount++;
+            else oddCount++;
+        }
+
+        if (evenCount === cells.length) {
+            return {
+                type: 'checkerboard',
+                char,
+                expression: '(r + c) % 2 == 0',
+                params: ['H', 'W'],
+                isScalable: true,
+                confidence: 1.0
+            };
+        }
+
+        if (oddCount === cells.length) {
+            return {
+                type: 'checkerboard',
+                char,
+                expression: '(r + c) % 2 == 1',
+                params: ['H', 'W'],
+                isScalable: true,
+                confidence: 1.0
+            };
+        }
+
+        return null;
+    }
+
+    /** Distance from a cell to the nearest edge (the ring it lies on) */
+    private ringOf(r: number, c: number): number {
+        return Math.min(r, c, this.H - 1 - r, this.W - 1 - c);
+    }
+
+    /**
+     * Check for concentric rings: every ring (cells at the same distance to
+     * the nearest edge) is either fully drawn or empty, and the drawn ones
+     * repeat with a period, e.g. ring % 2 == 0. Generated code computes ring
+     * with plain ifs.
+     */
+    private tryRings(cells: GridCoord[], char: string): Predicate | null {
+        const innermost = this.ringOf(this.H >> 1, this.W >> 1);
+        if (innermost < 2) return null;
+
+        const drawn = new Array<number>(innermost + 1).fill(0);
+        const total = new Array<number>(innermost + 1).fill(0);
+        const cellSet = new Set(cells.map(c => `${c.row},${c.col}`));
+        for (let r = 0; r < this.H; r++) {
+            for (let c = 0; c < this.W; c++) {
+                const ring = this.ringOf(r, c);
+                total[ring]++;
+                if (cellSet.has(`${r},${c}`)) drawn[ring]++;
+            }
+        }
+        if (drawn.some((n, ring) => n !== 0 && n !== total[ring])) return null;
+
+        const isDrawn = drawn.map(n => n > 0);
+        for (let period = 2; period * 2 <= innermost + 1; period++) {
+            const residues = new Set<number>();
+            isDrawn.forEach((d, ring) => { if (d) residues.add(ring % period); });
+            if (!isDrawn.every((d, ring) => d === residues.has(ring % period))) continue;
+            if (residues.size === 0 || residues.size === period) continue;
+
+            const missing = [...Array(period).keys()].filter(k => !residues.has(k));
+            const expression = missing.length === 1 && residues.size > 1
+                ? `ring % ${period} != ${missing[0]}`
+                : [...residues].map(k => `ring % ${period} == ${k}`).join(' || ');
+            if (!this.matchesCells(expression, cells)) continue;
+
+            return {
+                type: 'rings',
+                char,
+                expression,
+                params: ['H', 'W'],
+                isScalable: true,
+                confidence: 1.0
+            };
+        }
+        return null;
+    }
+
+    /**
+     * Check for a rectangular spiral: walls on every other ring, each wall
+     * opened by one cell where the line steps inward, and that cell filled on
+     * the ring between. Any starting corner and direction.
+     */
+    private trySpiral(cells: GridCoord[], char: string): Predicate | null {
+        if (this.ringOf(this.H >> 1, this.W >> 1) < 2) return null;
+
+        const steps: string[] = [];
+        for (const x of ['r', 'H-1-r']) {
+            for (const y of ['c', 'W-1-c']) {
+                steps.push(`${x} == ring + 1 && ${y} == ring`, `${y} == ring + 1 && ${x} == ring`);
+            }
+        }
+
+        for (const step of steps) {
+            for (const wall of [0, 1]) {
+                const expression = `(ring % 2 == ${wall} && !(${step})) || (ring % 2 == ${1 - wall} && ${step})`;
+                if (!this.matchesCells(expression, cells)) continue;
+
+                return {
+                    type: 'spiral',
+                    char,
+                    expression: printExpression(parseExpression(expression)),
+                    params: ['H', 'W'],
+                    isScalable: true,
+                    confidence: 1.0
+                };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check for bitwise patterns: Sierpinski triangles ((r & c) == 0),
+     * Pascal's triangle mod 2 ((r & c) == c) and XOR / AND / OR textures
+     * masked by a power of two, over r and c measured from any grid edge
+     * or from the corner of the drawing.
+     */
+    private tryBitwise(cells: GridCoord[], char: string): Predicate | null {
+        if (cells.length < 4) return null;
+
+        const top = Math.min(...cells.map(c => c.row));
+        const left = Math.min(...cells.map(c => c.col));
+
+        const axes: Array<{ x: string; y: string; guard: string; isScalable: boolean }> = [];
+        for (const x of ['r', 'H-1-r']) {
+            for (const y of ['c', 'W-1-c']) axes.push({ x, y, guard: '', isScalable: true });
+        }
+        if (top > 0 || left > 0) {
+            const t = this.parameterizeValue(top, this.H, 'H');
+            const l = this.parameterizeValue(left, this.W, 'W');
+            axes.push({
+                x: `(r - ${t})`,
+                y: `(c - ${l})`,
+                guard: `r >= ${t} && c >= ${l} && `,
+                isScalable: ![t, l].some(v => /^[1-9]\d*$/.test(v))
+            });
+        }
+
+        const masks: number[] = [];
+        for (let k = 1; k < Math.max(this.H, this.W); k *= 2) masks.push(k);
+
+        for (const { x, y, guard, isScalable } of axes) {
+            const forms = [
+                `(${x} & ${y}) == 0`,
+                `(${x} & ${y}) == ${y}`,
+                `(${x} & ${y}) == ${x}`,
+            ];
+            for (const k of masks) {
+                for (const op of ['^', '&', '|']) {
+                    forms.push(`((${x} ${op} ${y}) & ${k}) == 0`, `((${x} ${op} ${y}) & ${k}) != 0`);
+                }
+            }
+
+            for (const form of forms) {
+                const expression = printExpression(parseExpression(guard + form));
+                if (!this.matchesCells(expression, cells)) continue;
+
+                return {
+                    type: 'bitwise',
+                    char,
+                    expression,
+                    params: ['H', 'W'].filter(p => collectVariables(parseExpression(expression)).has(p)),
+                    isScalable,
+                    confidence: isScalable ? 1.0 : 0.7
+                };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check for periodic fills: stripes along rows, columns or diagonals,
+     * grid lines, dotted lattices and block checkerboards.
+     * Periods and phases are read off the drawing, then verified cell-for-cell.
+     */
+    private tryPeriodic(cells: GridCoord[], char: string): Predicate | null {
+        const cellSet = new Set(cells.map(c => `${c.row},${c.col}`));
+
+        // Per row / column / diagonal: is it completely filled, is it touched at all?
+        const rowFull = new Array<boolean>(this.H).fill(true);
+        const colFull = new Array<boolean>(this.W).fill(true);
+        const rowAny = new Array<boolean>(this.H).fill(false);
+        const colAny = new Array<boolean>(this.W).fill(false);
+        const sumFull = new Array<boolean>(this.H + this.W - 1).fill(true);
+        const diffFull = new Array<boolean>(this.H + this.W - 1).fill(true);
+
+        for (let r = 0; r < this.H; r++) {
+            for (let c = 0; c < this.W; c++) {
+                const filled = cellSet.has(`${r},${c}`);
+                if (!filled) {
+                    rowFull[r] = false;
+                    colFull[c] = false;
+                    sumFull[r + c] = false;
+                    diffFull[r - c + this.W - 1] = false;
+                } else {
+                    rowAny[r] = true;
+                    colAny[c] = true;
+                }
+            }
+        }
+
+        const rows = this.periodicCondition('r', this.findPeriod(rowFull, 0));
+        const cols = this.periodicCondition('c', this.findPeriod(colFull, 0));
+        const rowLattice = this.periodicCondition('r', this.findPeriod(rowAny, 0));
+        const colLattice = this.periodicCondition('c', this.findPeriod(colAny, 0));
+
+        const candidates: Array<string | null> = [
+            rows,
+            cols,
+            this.periodicCondition('r + c', this.findPeriod(sumFull, 0)),
+            this.periodicCondition('r - c', this.findPeriod(diffFull, -(this.W - 1))),
+            rows && cols ? `${rows} || ${cols}` : null,
+            rowLattice && colLattice ? `(${rowLattice}) && (${colLattice})` : null,
+        ];
+
+        // Checkerboards of k x k blocks
+        for (let k = 2; k <= Math.min(this.H, this.W) / 2; k++) {
+            candidates.push(`(r / ${k} + c / ${k}) % 2 == 0`, `(r / ${k} + c / ${k}) % 2 == 1`);
+        }
+
+        for (const candidate of candidates) {
+            if (!candidate) continue;
+            const expression = printExpression(parseExpression(candidate));
+            if (!this.matchesCells(expression, cells)) continue;
+
+            return {
+                type: 'periodic',
+                char,
+                expression,
+                params: ['H', 'W'],
+                isScalable: true,
+                confidence: 1.0
+            };
+        }
+        return null;
+    }
+
+    /**
+     * Smallest period (repeating at least twice) of a membership sequence.
+     * `offset` is the value of the first index, so residues are of the real value.
+     */
+    private findPeriod(member: boolean[], offset: number): { period: number; residues: number[] } | null {
+        const n = member.length;
+
+        for (let k = 2; k <= n / 2; k++) {
+            let periodic = true;
+            for (let i = k; i < n && periodic; i++) {
+                if (member[i] !== member[i - k]) periodic = false;
+            }
+            if (!periodic) continue;
+
+            const residues: number[] = [];
+            for (let i = 0; i < k; i++) {
+                if (member[i]) residues.push((((i + offset) % k) + k) % k);
+            }
+
+            // Nothing or everything selected is not a stripe pattern
+            if (residues.length === 0 || residues.length === k) return null;
+            return { period: k, residues: residues.sort((a, b) => a - b) };
+        }
+        return null;
+    }
+
+    /** Render `index % k` membership as a condition (single phase or contiguous band) */
+    private periodicCondition(
+        index: string,
+        found: { period: number; residues: number[] } | null
+    ): string | null {
+        if (!found) return null;
+
+        const { period, residues } = found;
+        const first = residues[0];
+        const last = residues[residues.length - 1];
+
+        // C's % keeps the sign of r - c, so compare against zero after shifting
+        if (index.includes('-')) {
+            if (residues.length !== 1) return null;
+            return first === 0
+                ? `(${index}) % ${period} == 0`
+                : `(${index} - ${first}) % ${period} == 0`;
+        }
+
+        const term = index.includes(' ') ? `(${index}) % ${period}` : `${index} % ${period}`;
+        if (residues.length === 1) return `${term} == ${first}`;
+        if (last - first !== residues.length - 1) return null;
+        if (first === 0) return `${term} < ${residues.length}`;
+        return `${term} >= ${first} && ${term} <= ${last}`;
+    }
+
+    /**
+     * Check for a union of primitives.
+     * Each connected component is matched on its own; a component no single
+     * detector explains is covered greedily with whole-grid primitives.
+     */
+    private tryComposite(cells: GridCoord[], char: string): Predicate | null {
+        const components = this.connectedComponents(cells);
+        const parts: Predicate[] = [];
+
+        for (const component of components) {
+            const direct = components.length > 1 ? this.matchDetectors(component, char) : null;
+            const covered = direct ? [direct] : this.coverWithPrimitives(component, char);
+            if (!covered) return null;
+            parts.push(...covered);
+        }
+
+        if (parts.length < 2) return null;
+
+        const expression = printExpression(anyOf(parts.map(p => parseExpression(p.expression))));
+        if (!this.matchesCells(expression, cells)) return null;
+
+        // Fixed-position pieces still read better as shapes than as cells, but trust them
+        // less, and write every bound as drawn so none of them moves with H or W
+        const isScalable = parts.every(p => p.isScalable);
+        return {
+            type: 'composite',
+            char,
+            expression: isScalable
+                ? expression
+                : printExpression(bindDimensions(parseExpression(expression), this.H, this.W)),
+            params: isScalable ? ['H', 'W'] : [],
+            isScalable,
+            confidence: Math.min(...parts.map(p => p.confidence)) * (isScalable ? 1 : 0.7)
+        };
+    }
+
+    /** Cover one component with the largest primitives it contains, then match what is left */
+    private coverWithPrimitives(component: GridCoord[], char: string): Predicate[] | null {
+        const target = new Set(component.map(c => `${c.row},${c.col}`));
+        const uncovered = new Set(target);
+        const parts: Predicate[] = [];
+
+        for (const { predicate, keys } of this.primitiveCandidates(char)) {
+            if (!keys.every(k => target.has(k))) continue;
+            if (!keys.some(k => uncovered.has(k))) continue;
+
+            parts.push(predicate);
+            for (const key of keys) uncovered.delete(key);
+        }
+
+        // Whatever the primitives missed must itself be simple shapes
+        const leftover = [...uncovered].map(key => {
+            const [row, col] = key.split(',').map(Number);
+            return { row, col };
+        });
+        for (const piece of this.connectedComponents(leftover)) {
+            const predicate = this.matchDetectors(piece, char);
+            if (!predicate) return null;
+            parts.push(predicate);
+        }
+
+        return parts.length > 0 ? parts : null;
+    }
+
+    /**
+     * Check for horizontal, vertical, both-axis or transpose symmetry.
+     * The fundamental region is analyzed as its own grid, then its predicate
+     * is rewritten over folded coordinates (fr = min(r, H-1-r), fc = min(c, W-1-c),
+     * tr/tc = min/max(r, c)) so it covers the whole grid.
+     */
+    private tryFolded(cells: GridCoord[], char: string): Predicate | null {
+        if (!this.options.foldSymmetry) return null;
+
+        const cellSet = new Set(cells.map(c => `${c.row},${c.col}`));
+        const mirrorsCols = cells.every(c => cellSet.has(`${c.row},${this.W - 1 - c.col}`));
+        const mirrorsRows = cells.every(c => cellSet.has(`${this.H - 1 - c.row},${c.col}`));
+        const transposes = this.H === this.W && cells.every(c => cellSet.has(`${c.col},${c.row}`));
+
+        const folds: Array<{ rows: boolean; cols: boolean; transpose: boolean }> = [];
+        if (mirrorsRows && mirrorsCols) folds.push({ rows: true, cols: true, transpose: false });
+        if (mirrorsCols) folds.push({ rows: false, cols: true, transpose: false });
+        if (mirrorsRows) folds.push({ rows: true, cols: false, transpose: false });
+        if (transposes) folds.push({ rows: false, cols: false, transpose: true });
+
+        for (const fold of folds) {
+            const subH = fold.rows ? Math.ceil(this.H / 2) : this.H;
+            const subW = fold.cols ? Math.ceil(this.W / 2) : this.W;
+            const region = cells.filter(c =>
+                c.row < subH && c.col < subW && (!fold.transpose || c.row <= c.col)
+            );
+            if (region.length === cells.length) continue;
+
+            const sub = new Grid(subH, subW);
+            for (const cell of region) sub.setCell(cell.row, cell.col, char, 0);
+            const inner = new PatternAnalyzer(sub, { ...this.options, foldSymmetry: false, tolerance: 0, synthesisBudgetMs: 0 })
+                .discoverPredicate(region, char);
+
+            const innerExpression = inner.type === 'coordinate_set'
+                ? this.coordinateExpression(region)
+                : inner.expression;
+
+            const bindings: Record<string, ExprNode> = {};
+            if (fold.rows) {
+                bindings.r = { kind: 'var', name: 'fr' };
+                bindings.H = parseExpression('(H+1)/2');
+            }
+            if (fold.cols) {
+                bindings.c = { kind: 'var', name: 'fc' };
+                bindings.W = parseExpression('(W+1)/2');
+            }
+            if (fold.transpose) {
+                bindings.r = { kind: 'var', name: 'tr' };
+                bindings.c = { kind: 'var', name: 'tc' };
+            }
+
+            const expression = printExpression(substitute(parseExpression(innerExpression), bindings));
+            if (!this.matchesCells(expression, cells)) continue;
+
+            return {
+                type: 'symmetric',
+                char,
+                expression,
+                params: ['H', 'W'],
+                isScalable: inner.isScalable,
+                confidence: inner.type === 'coordinate_set' ? 0.3 : inner.confidence
+            };
+        }
+        return null;
+    }
+
+    /** Enumerative search over small expressions in r, c, H, W */
+    private trySynthesis(cells: GridCoord[], char: string): Predicate | null {
+        if (this.options.synthesisBudgetMs <= 0) return null;
+
+        const result = new ExpressionSynthesizer(this.H, this.W, { timeBudgetMs: this.options.synthesisBudgetMs })
+            .synthesize(cells);
+        if (!result || !this.matchesCells(result.expression, cells)) return null;
+
+        // Without H or W the expression only holds at the drawn size
+        const params = ['H', 'W'].filter(p => collectVariables(parseExpression(result.expression)).has(p));
+        return {
+            type: 'synthesized',
+            char,
+            expression: result.expression,
+            params,
+            isScalable: params.length > 0,
+            confidence: params.length > 0 ? result.confidence : result.confidence * 0.5
+        };
+    }
+
+    /** Explicit OR-chain for a small set of cells, grouped by row */
+    private coordinateExpression(cells: GridCoord[]): string {
+        const byRow = new Map<number, number[]>();
+        for (const cell of cells) {
+            if (!byRow.has(cell.row)) byRow.set(cell.row, []);
+            byRow.get(cell.row)!.push(cell.col);
+        }
+
+        const rows: string[] = [];
+        for (const [row, cols] of byRow) {
+            rows.push(cols.length === 1
+                ? `(r == ${row} && c == ${cols[0]})`
+                : `(r == ${row} && (${cols.map(c => `c == ${c}`).join(' || ')}))`);
+        }
+        return rows.join(' || ');
+    }
+
+    /**
+     * Tolerance mode: the parametric candidate closest to the drawing, within
+     * `tolerance` differing cells, with those cells written in as exceptions:
+     *   (pattern && !(r == 0 && c == 5)) || (r == 3 && c == 3)
+     */
+    private tryNearMiss(cells: GridCoord[], char: string): Predicate | null {
+        if (this.options.tolerance <= 0) return null;
+
+        // A pattern that has to be patched in more than a quarter of its cells is no pattern
+        let limit = Math.min(this.options.tolerance, Math.floor(cells.length / 4));
+        let best: { predicate: Predicate; diff: PredicateExceptions } | null = null;
+
+        for (const candidate of this.nearMissCandidates(cells, char)) {
+            const diff = this.diffCells(candidate.expression, cells, limit);
+            if (!diff) continue;
+
+            best = { predicate: candidate, diff };
+            limit = diff.include.length + diff.exclude.length - 1;
+            if (limit < 0) break;
+        }
+
+        if (!best) return null;
+
+        const { predicate, diff } = best;
+        const differing = diff.include.length + diff.exclude.length;
+        if (differing === 0) return predicate;
+
+        const at = (cell: GridCoord) => parseExpression(`r == ${cell.row} && c == ${cell.col}`);
+        const node = anyOf([
+            allOf([
+                parseExpression(predicate.expression),
+                ...diff.exclude.map(cell => ({ kind: 'unary', op: '!', arg: at(cell) }) as ExprNode),
+            ]),
+            ...diff.include.map(at),
+        ]);
+
+        return {
+            ...predicate,
+            expression: printExpression(node),
+            confidence: predicate.confidence * (1 - differing / cells.length),
+            exceptions: diff
+        };
+    }
+
+    /** The scalable patterns closest to a drawing, closest first */
+    private nearestPatterns(cells: GridCoord[], char: string, count = 3): NearMiss[] {
+        const limit = Math.max(2, Math.floor(cells.length / 3));
+        const seen = new Set<string>();
+        const nearest: NearMiss[] = [];
+
+        for (const predicate of this.nearMissCandidates(cells, char)) {
+            if (!predicate.isScalable || seen.has(predicate.expression)) continue;
+            seen.add(predicate.expression);
+
+            const diff = this.diffCells(predicate.expression, cells, limit);
+            if (!diff || diff.include.length + diff.exclude.length === 0) continue;
+
+            // Shapes that come out the same on this grid need the same fix; list it once
+            const fix = JSON.stringify(diff);
+            if (seen.has(fix)) continue;
+            seen.add(fix);
+            nearest.push({ predicate, diff });
+        }
+
+        const size = (m: NearMiss) => m.diff.include.length + m.diff.exclude.length;
+        return nearest.sort((a, b) => size(a) - size(b)).slice(0, count);
+    }
+
+    /** "border missing 2 cells", "diagonal has 1 extra cell" */
+    private static describeNearMiss({ predicate, diff }: NearMiss): string {
+        const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+        const parts: string[] = [];
+        if (diff.exclude.length > 0) parts.push(`missing ${count(diff.exclude.length, 'cell')}`);
+        if (diff.include.length > 0) parts.push(`has ${count(diff.include.length, 'extra cell')}`);
+        return `${predicate.type.replace(/_/g, ' ')} ${parts.join(' and ')}`;
+    }
+
+    /** Parametric shapes to measure a drawing against in tolerance mode */
+    private nearMissCandidates(cells: GridCoord[], char: string): Predicate[] {
+        const candidates = this.primitiveCandidates(char).map(c => c.predicate);
+        const shapes: GridCoord[][] = [];
+
+        // Rectangles around the drawing
+        let minR = Infinity, maxR = -Infinity;
+        let minC = Infinity, maxC = -Infinity;
+        for (const cell of cells) {
+            minR = Math.min(minR, cell.row);
+            maxR = Math.max(maxR, cell.row);
+            minC = Math.min(minC, cell.col);
+            maxC = Math.max(maxC, cell.col);
+        }
+        shapes.push(this.rectCells(minR, maxR, minC, maxC, false), this.rectCells(minR, maxR, minC, maxC, true));
+
+        // Inset rings and thick borders
+        for (let k = 1; 2 * k < Math.min(this.H, this.W) - 1; k++) {
+            shapes.push(this.rectCells(k, this.H - 1 - k, k, this.W - 1 - k, true));
+            shapes.push(this.rectCells(0, this.H - 1, 0, this.W - 1, false)
+                .filter(c => Math.min(c.row, c.col, this.H - 1 - c.row, this.W - 1 - c.col) <= k));
+        }
+
+        for (const shape of shapes) {
+            const predicate = this.tryFilledRectangle(shape, char) ?? this.tryFrame(shape, char);
+            if (predicate && predicate.isScalable) candidates.push(predicate);
+        }
+
+        // Triangular families and periodic fills
+        const templates = this.triangularCandidates(cells).map(t => ({ type: t.type, expression: t.expression }));
+        for (let k = 2; k <= 4; k++) {
+            for (let m = 0; m < k; m++) {
+                templates.push(
+                    { type: 'periodic', expression: `r % ${k} == ${m}` },
+                    { type: 'periodic', expression: `c % ${k} == ${m}` },
+                    { type: 'periodic', expression: `(r + c) % ${k} == ${m}` }
+                );
+            }
+        }
+
+        for (const t of templates) {
+            candidates.push({
+                type: t.type,
+                char,
+                expression: printExpression(parseExpression(t.expression)),
+                params: ['H', 'W'],
+                isScalable: true,
+                confidence: 1.0
+            });
+        }
+
+        return candidates;
+    }
+
+    /** Cells of a filled or outlined rectangle */
+    private rectCells(minR: number, maxR: number, minC: number, maxC: number, outline: boolean): GridCoord[] {
+        const cells: GridCoord[] = [];
+        for (let r = minR; r <= maxR; r++) {
+            for (let c = minC; c <= maxC; c++) {
+                const onEdge = r === minR || r === maxR || c === minC || c === maxC;
+                if (!outline || onEdge) cells.push({ row: r, col: c });
+            }
+        }
+        return cells;
+    }
+
+    /** Whole-grid primitives (border, diagonals, full rows/cols), largest first */
+    private primitiveCandidates(char: string): Array<{ predicate: Predicate; keys: string[] }> {
+        const minDim = Math.min(this.H, this.W);
+        const shapes: GridCoord[][] = [];
+
+        const border: GridCoord[] = [];
+        for (let r = 0; r < this.H; r++) {
+            for (let c = 0; c < this.W; c++) {
+                if (r === 0 || r === this.H - 1 || c === 0 || c === this.W - 1) border.push({ row: r, col: c });
+            }
+        }
+        shapes.push(border);
+
+        const diagonal: GridCoord[] = [];
+        const antiDiagonal: GridCoord[] = [];
+        for (let i = 0; i < minDim; i++) {
+            diagonal.push({ row: i, col: i });
+            antiDiagonal.push({ row: i, col: minDim - 1 - i });
+        }
+        shapes.push(diagonal, antiDiagonal);
+
+        for (let r = 0; r < this.H; r++) {
+            shapes.push(Array.from({ length: this.W }, (_, c) => ({ row: r, col: c })));
+        }
+        for (let c = 0; c < this.W; c++) {
+            shapes.push(Array.from({ length: this.H }, (_, r) => ({ row: r, col: c })));
+        }
+
+        const candidates: Array<{ predicate: Predicate; keys: string[] }> = [];
+        for (const shape of shapes) {
+            const predicate = this.matchDetectors(shape, char);
+            if (predicate) {
+                candidates.push({ predicate, keys: shape.map(c => `${c.row},${c.col}`) });
+            }
+        }
+
+        return candidates.sort((a, b) => b.keys.length - a.keys.length);
+    }
+
+    /** Split cells into 8-connected components */
+    private connectedComponents(cells: GridCoord[]): GridCoord[][] {
+        const remaining = new Set(cells.map(c => `${c.row},${c.col}`));
+        const components: GridCoord[][] = [];
+
+        for (const start of cells) {
+            if (!remaining.has(`${start.row},${start.col}`)) continue;
+            remaining.delete(`${start.row},${start.col}`);
+
+            const component: GridCoord[] = [];
+            const queue = [start];
+            while (queue.length > 0) {
+                const cell = queue.shift()!;
+                component.push(cell);
+                for (let dr = -1; dr <= 1; dr++) {
+                    for (let dc = -1; dc <= 1; dc++) {
+                        const key = `${cell.row + dr},${cell.col + dc}`;
+                        if (remaining.has(key)) {
+                            remaining.delete(key);
+                            queue.push({ row: cell.row + dr, col: cell.col + dc });
+                        }
+                    }
+                }
+            }
+
+            // Keep row-major order so detectors see cells as the grid yields them
+            component.sort((a, b) => a.row - b.row || a.col - b.col);
+            components.push(component);
+        }
+
+        return components;
+    }
+
+    /** Check that an expression selects exactly the given cells */
+    private matchesCells(expression: string, cells: GridCoord[]): boolean {
+        return this.diffCells(expression, cells, 0) !== null;
+    }
+
+    /** Cells where an expression and the drawing disagree, or null once more than `limit` do */
+    private diffCells(expression: string, cells: GridCoord[], limit: number): PredicateExceptions | null {
+        const cellSet = new Uint8Array(this.H * this.W);
+        for (const cell of cells) cellSet[cell.row * this.W + cell.col] = 1;
+        const diff: PredicateExceptions = { include: [], exclude: [] };
+
+        try {
+            const test = compileCondition(expression);
+
+            // Most wrong candidates already miss a drawn cell
+            if (limit === 0 && cells.some(cell => !test(cell.row, cell.col, this.H, this.W))) return null;
+
+            for (let r = 0; r < this.H; r++) {
+                for (let c = 0; c < this.W; c++) {
+                    const selected = test(r, c, this.H, this.W);
+                    const drawn = cellSet[r * this.W + c] === 1;
+                    if (selected === drawn) continue;
+
+                    if (drawn) diff.include.push({ row: r, col: c });
+                    else diff.exclude.push({ row: r, col: c });
+                    if (diff.include.length + diff.exclude.length > limit) return null;
+                }
+            }
+        } catch {
+            return null;
+        }
+        return diff;
+    }
+
+    /** Evaluate a parameter expression at the current grid size */
+    private valueOf(expression: string): number {
+        return compileExpression(parseExpression(expression))({ H: this.H, W: this.W });
     }
 
     /** Fallback: explicit coordinate set */
@@ -306,8 +2105,20 @@ export class PatternAnalyzer {
         };
     }
 
-    /** Convert a literal value to a parametric expression if possible */
-    private parameterizeValue(value: number, dimension: number, dimName: string): string {
+    /**
+     * Convert a literal value to a parametric expression if possible.
+     * Anchors apply to row / column positions only; `inset` marks a frame's
+     * edge, which stays anchored to the far edge when it sits in the far half.
+     */
+    private parameterizeValue(
+        value: number,
+        dimension: number,
+        dimName: string,
+        { role = 'position', inset = false }: { role?: ValueRole; inset?: boolean } = {}
+    ): string {
+        const anchored = this.anchorFor(value, dimension, dimName, role);
+        if (anchored) return anchored;
+
         if (value === 0) return '0';
         if (value === dimension) return dimName;
         if (value === dimension - 1) return `${dimName}-1`;
@@ -318,10 +2129,145 @@ export class PatternAnalyzer {
         if (dimension % 4 === 0 && value === dimension / 4) return `${dimName}/4`;
         if (dimension % 3 === 0 && value === dimension / 3) return `${dimName}/3`;
 
+        // Frame insets in the far half stay anchored to the far edge
+        if (inset && value > dimension / 2 && value < dimension) return `${dimName}-${dimension - value}`;
+
         // No parametric relationship found
         return value.toString();
     }
 
+    /**
+     * The value written the way the anchor on its row / column asks: the
+     * anchored position itself, or for an exclusive end the position just
+     * past it. Null for lengths and offsets, or when nothing is anchored there.
+     */
+    private anchorFor(value: number, dimension: number, dimName: string, role: ValueRole): string | null {
+        if (role === 'amount') return null;
+        const position = role === 'end' ? value - 1 : value;
+        const anchor = this.options.anchors.find(a => a.value === position && (a.axis === 'row') === (dimName === 'H'));
+        return anchor ? this.anchoredValue({ ...anchor, value }, dimension, dimName) : null;
+    }
+
+    /** A value written the way its anchor asks, or null if the anchor cannot express it */
+    private anchoredValue({ value, pin }: Anchor, dimension: number, dimName: string): string | null {
+        switch (pin) {
+            case 'start':
+            case 'fixed':
+                return value.toString();
+            case 'end':
+                return value === dimension ? dimName : `${dimName}-${dimension - value}`;
+            case 'center': {
+                const offset = value - Math.floor(dimension / 2);
+                if (offset === 0) return `${dimName}/2`;
+                return offset > 0 ? `${dimName}/2+${offset}` : `${dimName}/2-${-offset}`;
+            }
+            case 'fraction':
+                for (let d = 2; d <= 8; d++) {
+                    for (let n = 1; n < d; n++) {
+                        if (Math.floor(dimension * n / d) === value) return n === 1 ? `${dimName}/${d}` : `${dimName}*${n}/${d}`;
+                    }
+                }
+                return null;
+        }
+    }
+
+    /** Parameterize a length that could follow either dimension (prefers H) */
+    private parameterizeSpan(value: number): string {
+        const byHeight = this.parameterizeValue(value, this.H, 'H', { role: 'amount' });
+        if (byHeight.includes('H')) return byHeight;
+        return this.parameterizeValue(value, this.W, 'W', { role: 'amount' });
+    }
+
+    /** The runs of each row as loops over stretches of rows, or null if some row is broken or the loops miss */
+    private rowLayout(char: string, cells: GridCoord[]): RowLayout | null {
+        const rows = Array.from({ length: this.H }, () => ({ start: 0, count: 0 }));
+        for (let r = 0; r < this.H; r++) {
+            const cols = cells.filter(cell => cell.row === r).map(cell => cell.col);
+            if (cols.length === 0) continue;
+
+            const start = Math.min(...cols);
+            if (Math.max(...cols) - start + 1 !== cols.length) return null;  // More than one run
+            rows[r] = { start, count: cols.length };
+        }
+
+        // Grow a stretch while the start and the count keep the step of its first two rows; blank rows stay apart
+        const steady = (from: number, to: number) => {
+            if ((rows[from].count === 0) !== (rows[to].count === 0)) return false;
+            if (to - from < 2) return true;
+            const ds = rows[from + 1].start - rows[from].start;
+            const dk = rows[from + 1].count - rows[from].count;
+            return rows[to].start === rows[from].start + ds * (to - from) && rows[to].count === rows[from].count + dk * (to - from);
+        };
+        const stretches: Array<{ from: number; to: number }> = [];
+        for (let from = 0, r = 1; r <= this.H; r++) {
+            if (r < this.H && steady(from, r)) continue;
+            stretches.push({ from, to: r });
+            from = r;
+        }
+        if (stretches.length > PatternAnalyzer.MAX_ROW_STRETCHES) return null;
+
+        const runs = stretches.map(({ from, to }) => {
+            const line = (value: (r: number) => number) => {
+                const step = to - from > 1 ? value(from + 1) - value(from) : 0;
+                return this.rowFunction(step, value(from) - step * from);
+            };
+            return {
+                from: this.rowNumber(from),
+                to: this.rowNumber(to, 'end'),
+                spaces: rows[from].count === 0 ? '0' : line(r => rows[r].start),
+                count: line(r => rows[r].count),
+            };
+        });
+
+        // The loops must print every row exactly as drawn
+        const at = (expression: string, r: number) => compileCellExpression(expression)(r, 0, this.H, this.W);
+        const exact = runs.every((run, i) => {
+            const { from, to } = stretches[i];
+            if (at(run.from, 0) !== from || at(run.to, 0) !== to) return false;
+            for (let r = from; r < to; r++) {
+                const drawn = rows[r].count === 0 ? 0 : rows[r].start;
+                if (at(run.spaces, r) !== drawn || at(run.count, r) !== rows[r].count) return false;
+            }
+            return true;
+        });
+        return exact ? { char, runs } : null;
+    }
+
+    /**
+     * step * r + value, counted from the row (0, H or H/2) that leaves the
+     * smallest constant: 2 * r + 1, H - r - 1, 2 * (H - r) - 1, r - H/2
+     */
+    private rowFunction(step: number, value: number): string {
+        if (step === 0) return value.toString();
+
+        const origins: Array<[string, number]> = [['0', 0], ['H', this.H], ['H/2', Math.floor(this.H / 2)]];
+        const [origin, at] = origins.reduce((best, o) =>
+            (Math.abs(value + step * o[1]) < Math.abs(value + step * best[1]) ? o : best));
+        const rest = value + step * at;
+        const times = Math.abs(step) === 1 ? '' : `${Math.abs(step)} * `;
+
+        if (origin === '0') {
+            const term = `${times}r`;
+            if (step < 0) return `${value} - ${term}`;
+            return rest === 0 ? term : rest > 0 ? `${term} + ${rest}` : `${term} - ${-rest}`;
+        }
+        const difference = step > 0 ? `r - ${origin}` : `${origin} - r`;
+        const term = times ? `${times}(${difference})` : difference;
+        return rest === 0 ? term : rest > 0 ? `${term} + ${rest}` : `${term} - ${-rest}`;
+    }
+
+    /** A row number (or an exclusive end) as the nearest of 0, H and H/2 plus an offset, unless anchored */
+    private rowNumber(value: number, role: ValueRole = 'position'): string {
+        const anchored = this.anchorFor(value, this.H, 'H', role);
+        if (anchored) return anchored;
+
+        const origins: Array<[string, number]> = [['H', this.H], ['H/2', Math.floor(this.H / 2)]];
+        const [origin, at] = origins.reduce((best, o) => (Math.abs(value - o[1]) < Math.abs(value - best[1]) ? o : best));
+        const offset = value - at;
+        if (Math.abs(offset) >= value) return value.toString();
+        return offset === 0 ? origin : offset > 0 ? `${origin}+${offset}` : `${origin}-${-offset}`;
+    }
+
     /** Get cells grouped by character (for code generation) */
     getCellsByChar(): Map<string, GridCoord[]> {
         return this.grid.getCellsByChar();
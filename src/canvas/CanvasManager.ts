@@ -38,6 +38,7 @@ export class CanvasManager {
 
     private startCoord: GridCoord | null = null;
     private previewCells: Set<string> = new Set();
+    private highlightCells: GridCoord[] = [];
 
     private undoStack: UndoState[] = [];
     private redoStack: UndoState[] = [];
@@ -70,6 +71,11 @@ export class CanvasManager {
         return this.activeLayer === 'background' ? this.backgroundGrid : this.frameManager.getCurrentGrid();
     }
 
+    /** Background and current frame merged, as the generated program should print it */
+    getCompositeGrid(): Grid {
+        return Grid.compose(this.backgroundGrid, this.frameManager.getCurrentGrid());
+    }
+
     setActiveLayer(layer: 'background' | 'foreground'): void {
         this.activeLayer = layer;
         this.render();
@@ -339,6 +345,47 @@ export class CanvasManager {
             this.ctx.fillText(this.currentChar, bounds.x + bounds.w / 2, bounds.y + bounds.h / 2);
         }
         this.ctx.shadowBlur = 0;
+
+        // 7. Highlights
+        this.ctx.strokeStyle = '#ffcc00'; this.ctx.lineWidth = 2;
+        for (const cell of this.highlightCells) {
+            const bounds = this.snapper.getCellBounds(cell.row, cell.col);
+            this.ctx.strokeRect(bounds.x + 1, bounds.y + 1, bounds.w - 2, bounds.h - 2);
+        }
+    }
+
+    /** Mark cells on top of the drawing, e.g. the ones a suggested fix would change */
+    setHighlights(cells: GridCoord[]): void {
+        if (cells.length === 0 && this.highlightCells.length === 0) return;
+        this.highlightCells = cells;
+        this.render();
+    }
+
+    /**
+     * Draw and erase cells of one layer as a single undoable step. The cells
+     * come from the merged picture, so a cell another character already shows
+     * in, or whose character the other layer draws, is left alone; returns
+     * how many were skipped.
+     */
+    applyFix(layer: 'background' | 'foreground', char: string, add: GridCoord[], remove: GridCoord[]): number {
+        const front = this.frameManager.getCurrentGrid();
+        const grid = layer === 'background' ? this.backgroundGrid : front;
+        const charAt = (g: Grid, cell: GridCoord) => g.getCell(cell.row, cell.col)?.char ?? null;
+
+        const drawable = add.filter(cell => (charAt(front, cell) ?? charAt(this.backgroundGrid, cell)) === null);
+        const erasable = remove.filter(cell => charAt(grid, cell) === char && (layer === 'foreground'
+            ? charAt(this.backgroundGrid, cell) !== char
+            : charAt(front, cell) === null));
+        const skipped = add.length + remove.length - drawable.length - erasable.length;
+        if (drawable.length + erasable.length === 0) return skipped;
+
+        this.saveUndoState(layer);
+        this.strokeId++;
+        for (const cell of drawable) grid.setCell(cell.row, cell.col, char, this.strokeId);
+        for (const cell of erasable) grid.setCell(cell.row, cell.col, null, this.strokeId);
+        this.render();
+        this.onGridChange?.(this.getGrid());
+        return skipped;
     }
 
     setTool(tool: ExtendedToolType): void { this.currentTool = tool; }
@@ -373,10 +420,10 @@ export class CanvasManager {
         this.onGridChange?.(this.getGrid());
     }
 
-    private saveUndoState(): void {
-        const layer = this.activeLayer;
+    private saveUndoState(layer: 'background' | 'foreground' = this.activeLayer): void {
         const frameIdx = this.frameManager.getCurrentIndex();
-        const snapshot = this.getGrid().snapshot();
+        const grid = layer === 'background' ? this.backgroundGrid : this.frameManager.getCurrentGrid();
+        const snapshot = grid.snapshot();
 
         this.undoStack.push({ layer, frameIdx, snapshot });
         if (this.undoStack.length > 50) this.undoStack.shift();
@@ -0,0 +1,89 @@
+/**
+ * AnimationGenerator - Turns every frame of an animation into one program
+ *
+ * Each distinct frame becomes a drawing routine built from that frame's own
+ * predicates. The program clears the screen, draws the frames in order with
+ * a pause after each and, if asked, starts over. Frames that look the same
+ * share one routine.
+ */
+
+import { Predicate, GeneratedCode, GridCoord, Language, CodeStyle } from '../core/types';
+import { Grid } from '../core/Grid';
+import { Animation } from './Backend';
+import { BACKENDS, CodeGenerator } from './CodeGenerator';
+
+/** What was found in one distinct frame */
+export interface AnimationFrame {
+    predicates: Predicate[];
+    cellsByChar: Map<string, GridCoord[]>;
+}
+
+export interface AnimationOptions {
+    language?: Language;
+    style?: CodeStyle;
+    /** Start over after the last frame (default true) */
+    loop?: boolean;
+    /** How long each frame stays on screen (default 200 ms, as in the editor's playback) */
+    delayMs?: number;
+}
+
+export class AnimationGenerator {
+    private frames: AnimationFrame[];
+    private sequence: number[];
+    private H: number;
+    private W: number;
+    private options: Required<AnimationOptions>;
+
+    /** `sequence` lists the frame shown at each step, as an index into `frames` */
+    constructor(frames: AnimationFrame[], sequence: number[], H: number, W: number, options: AnimationOptions = {}) {
+        this.frames = frames;
+        this.sequence = sequence;
+        this.H = H;
+        this.W = W;
+        this.options = { language: 'cpp', style: 'beginner', loop: true, delayMs: 200, ...options };
+    }
+
+    /**
+     * Which grids need analyzing: `distinct` holds the index of the first grid
+     * of each look, `sequence` the position in `distinct` of every grid
+     */
+    static distinctFrames(grids: Grid[]): { distinct: number[]; sequence: number[] } {
+        const distinct: number[] = [];
+        const seen = new Map<string, number>();
+        const sequence = grids.map((grid, i) => {
+            const key = grid.toString();
+            if (!seen.has(key)) {
+                seen.set(key, distinct.length);
+                distinct.push(i);
+            }
+            return seen.get(key)!;
+        });
+        return { distinct, sequence };
+    }
+
+    /** Generate the complete program */
+    generate(): GeneratedCode {
+        const warnings: string[] = [];
+        const params = new Map<string, number>();
+        params.set('H', this.H);
+        params.set('W', this.W);
+
+        const isScalable = this.frames.every(f => f.predicates.every(p => p.type !== 'coordinate_set'));
+        if (!isScalable) {
+            warnings.push('⚠ Contains fixed coordinates - will not scale with H/W changes.');
+        }
+
+        const animation: Animation = {
+            H: this.H,
+            W: this.W,
+            frames: this.frames.map(f => new CodeGenerator(f.predicates, this.H, this.W, f.cellsByChar).buildProgram()),
+            sequence: this.sequence,
+            loop: this.options.loop,
+            delayMs: this.options.delayMs,
+        };
+        const { language, style } = this.options;
+        const code = BACKENDS[language]().renderAnimation(animation, style);
+
+        return { language, style, code, params, warnings, isScalable };
+    }
+}
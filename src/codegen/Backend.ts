@@ -0,0 +1,345 @@
+/**
+ * Backend - Language-neutral program handed to each code generation backend
+ *
+ * The CodeGenerator turns predicates into a Program: the grid size, the
+ * derived cell variables in use and one branch per character, whose
+ * conditions are expression ASTs. A backend renders that Program in its
+ * language; renderExpression does the part every language shares, printing
+ * an AST with that language's operators, precedence and quirks.
+ */
+
+import { GridCoord, Language, CodeStyle, InputFormat } from '../core/types';
+import { BinaryOp, ExprNode, compileCellExpression, printExpression } from '../core/Expression';
+
+/** When a branch is taken */
+export type BranchCondition =
+    | { kind: 'expression'; node: ExprNode; source: string }  // source: the predicate as written (C style)
+    | { kind: 'cells'; cells: GridCoord[] };                   // Fixed cells that could not be described
+
+/** What a branch prints */
+export type BranchOutput =
+    | { kind: 'char'; char: string }
+    | { kind: 'computed'; node: ExprNode; source: string };   // Character code computed per cell
+
+export interface Branch {
+    condition: BranchCondition;
+    output: BranchOutput;
+}
+
+export interface Program {
+    H: number;
+    W: number;
+    derived: Array<{ name: string; pick: 'min' | 'max'; terms: string[] }>;  // Derived cell variables in use
+    branches: Branch[];  // if / else if chain; no branch taken prints a space
+    input: InputFormat;  // Where H and W come from
+    rowLoops?: RowLoops; // Print each row with loops instead of testing every cell (branches are then empty)
+}
+
+/** Rows printed as a loop of spaces then a loop of one character, with no trailing spaces */
+export interface RowLoops {
+    char: string;
+    runs: Array<{ from: ExprNode; to: ExprNode; spaces: ExprNode; count: ExprNode }>;  // Rows from <= r < to
+}
+
+/** Every frame of an animation, shown one after another */
+export interface Animation {
+    H: number;
+    W: number;
+    frames: Program[];   // Distinct frames, each drawn by a routine of its own
+    sequence: number[];  // The frame shown at each step, as an index into frames
+    loop: boolean;       // Start over after the last step
+    delayMs: number;     // How long each step stays on screen
+    timed?: boolean;     // The one frame is drawn from the step number t, so the steps are one loop over t
+}
+
+export interface Backend {
+    readonly language: Language;
+    render(program: Program, style: CodeStyle): string;
+    renderAnimation(animation: Animation, style: CodeStyle): string;
+}
+
+/** How one language spells and groups the operators of a C-style expression */
+export interface Dialect {
+    operators: Record<BinaryOp, string>;
+    precedence: Record<BinaryOp, number>;
+    not: string;                     // Prefix for logical negation
+    notPrecedence: number;           // Python's `not` binds looser than comparisons
+    chainsComparisons: boolean;      // Python reads a < b < c as a < b and b < c
+    call: (name: string, args: string[]) => string;
+    charCode: (literal: string) => string;  // The number of a quoted character
+    literals: { true: string; false: string };
+    compact?: boolean;               // No spaces around operators
+    widen?: (product: string) => string;  // Computes a product of three or more variables in 64 bits, where an int would overflow
+    /** Stand-in for C's truncating / or %, or null when the operator already behaves that way */
+    truncating: (op: '/' | '%', operands: TruncatingOperands) => string | null;
+}
+
+/** Operands of a / or %, grouped for use beside the operator and as written alone */
+export interface TruncatingOperands {
+    left: string;
+    right: string;
+    plainLeft: string;
+    plainRight: string;
+    nonNegative: boolean;  // The left side is never negative, so floor and truncation agree
+}
+
+/** Operator spelling and precedence of C, shared by the C-family languages */
+export const C_OPERATORS: Pick<Dialect, 'operators' | 'precedence'> = {
+    operators: {
+        '||': '||', '&&': '&&', '|': '|', '^': '^', '&': '&',
+        '==': '==', '!=': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+        '+': '+', '-': '-', '*': '*', '/': '/', '%': '%',
+    },
+    precedence: {
+        '||': 1, '&&': 2, '|': 3, '^': 4, '&': 5,
+        '==': 6, '!=': 6, '<': 7, '<=': 7, '>': 7, '>=': 7,
+        '+': 8, '-': 8, '*': 9, '/': 9, '%': 9,
+    },
+};
+
+const ATOM = 100;
+const ASSOCIATIVE = new Set<BinaryOp>(['||', '&&', '|', '^', '&', '+', '*']);
+const COMPARISONS = new Set<BinaryOp>(['==', '!=', '<', '<=', '>', '>=']);
+const isBitwise = (op: BinaryOp) => op === '|' || op === '^' || op === '&';
+
+/**
+ * Print an expression in a dialect. `nonNegative` tells whether the left side
+ * of a / or % can never be negative, where floor and truncation agree.
+ */
+export function renderExpression(node: ExprNode, dialect: Dialect, nonNegative: (node: ExprNode) => boolean = () => false): string {
+    return render(node, dialect, nonNegative).text;
+}
+
+/**
+ * Print a branch condition: a constant as the language's true / false, and a
+ * long || chain with one operand per line (inside parentheses if the
+ * language needs them to continue a line)
+ */
+export function renderCondition(
+    node: ExprNode,
+    dialect: Dialect,
+    options: { indent: string; parenthesize: boolean; nonNegative?: (node: ExprNode) => boolean }
+): string {
+    if (node.kind === 'num' && !node.isChar) return node.value ? dialect.literals.true : dialect.literals.false;
+
+    const nonNegative = options.nonNegative ?? (() => false);
+    const text = renderExpression(node, dialect, nonNegative);
+    if (text.length <= 100) return text;
+
+    const operands = renderOperands(node, '||', dialect, nonNegative);
+    if (operands.length < 2) return text;
+    const wrapped = operands.join(` ${dialect.operators['||']}\n${options.indent}`);
+    return options.parenthesize ? `(${wrapped})` : wrapped;
+}
+
+/** The operands of a top-level chain like a || b || c, each grouped as it would be inside it */
+function renderOperands(node: ExprNode, op: BinaryOp, dialect: Dialect, nonNegative: (node: ExprNode) => boolean): string[] {
+    if (node.kind === 'binary' && node.op === op) {
+        return [...renderOperands(node.left, op, dialect, nonNegative), ...renderOperands(node.right, op, dialect, nonNegative)];
+    }
+    return [group(render(node, dialect, nonNegative), node, op, true, dialect)];
+}
+
+/**
+ * Print a node; `widened` marks the left operand of a product already
+ * computed in 64 bits, which must not be widened a second time
+ */
+function render(
+    node: ExprNode, dialect: Dialect, nonNegative: (node: ExprNode) => boolean, widened = false
+): { text: string; precedence: number } {
+    switch (node.kind) {
+        case 'num':
+            if (node.isChar) return { text: dialect.charCode(printExpression(node)), precedence: ATOM };
+            return { text: node.value < 0 ? `(${node.value})` : String(node.value), precedence: ATOM };
+        case 'var':
+            return { text: node.name, precedence: ATOM };
+        case 'call':
+            return { text: dialect.call(node.name, node.args.map(a => render(a, dialect, nonNegative).text)), precedence: ATOM };
+        case 'unary': {
+            const arg = render(node.arg, dialect, nonNegative);
+            const text = node.arg.kind === 'binary' ? `(${arg.text})` : arg.text;
+            return node.op === '!'
+                ? { text: `${dialect.not}${text}`, precedence: dialect.notPrecedence }
+                : { text: `-${text}`, precedence: ATOM - 1 };
+        }
+        case 'binary': {
+            const widen = node.op === '*' && !widened && dialect.widen !== undefined && degree(node) >= 3;
+            const left = render(node.left, dialect, nonNegative, node.op === '*' && (widened || widen));
+            const right = render(node.right, dialect, nonNegative);
+            const l = group(left, node.left, node.op, false, dialect);
+            const r = group(right, node.right, node.op, true, dialect);
+
+            if (node.op === '/' || node.op === '%') {
+                const operands = { left: l, right: r, plainLeft: left.text, plainRight: right.text, nonNegative: nonNegative(node.left) };
+                const replaced = dialect.truncating(node.op, operands);
+                if (replaced !== null) return { text: replaced, precedence: ATOM };
+            }
+
+            const op = dialect.operators[node.op];
+            const text = isDimensionOffset(node) || dialect.compact ? `${l}${op}${r}` : `${l} ${op} ${r}`;
+            return { text: widen ? dialect.widen!(text) : text, precedence: dialect.precedence[node.op] };
+        }
+    }
+}
+
+/** Parenthesize a rendered child where the dialect would otherwise regroup it, or where C compilers warn */
+function group(child: { text: string; precedence: number }, node: ExprNode, parent: BinaryOp, isRight: boolean, dialect: Dialect): string {
+    const pp = dialect.precedence[parent];
+    let needed = child.precedence < pp;
+
+    if (node.kind === 'binary') {
+        if (child.precedence === pp && isRight && !(parent === node.op && ASSOCIATIVE.has(parent))) needed = true;
+        if (parent === '||' && node.op === '&&') needed = true;
+        if ((isBitwise(parent) || isBitwise(node.op)) && parent !== node.op) needed = true;
+        if (dialect.chainsComparisons && COMPARISONS.has(parent) && COMPARISONS.has(node.op)) needed = true;
+    }
+    return needed ? `(${child.text})` : child.text;
+}
+
+/**
+ * Whether an expression multiplies three or more variables, like the
+ * ellipse test X*X*RY*RY, which overflows an int for grids of a few
+ * hundred cells
+ */
+export function hasWideProduct(node: ExprNode): boolean {
+    switch (node.kind) {
+        case 'num':
+        case 'var':
+            return false;
+        case 'call':
+            return node.args.some(hasWideProduct);
+        case 'unary':
+            return hasWideProduct(node.arg);
+        case 'binary':
+            return (node.op === '*' && degree(node) >= 3) || hasWideProduct(node.left) || hasWideProduct(node.right);
+    }
+}
+
+/** How many variables an expression multiplies at most (comparisons and logic give 0 or 1) */
+function degree(node: ExprNode): number {
+    switch (node.kind) {
+        case 'num': return 0;
+        case 'var': return 1;
+        case 'call': return Math.max(...node.args.map(degree));
+        case 'unary': return node.op === '!' ? 0 : degree(node.arg);
+        case 'binary':
+            switch (node.op) {
+                case '*': return degree(node.left) + degree(node.right);
+                case '/': return degree(node.left);
+                case '%': return degree(node.right);
+                case '+': case '-': case '|': case '^': case '&': return Math.max(degree(node.left), degree(node.right));
+                default: return 0;
+            }
+    }
+}
+
+/** Dimension offsets read as a single value: H-1, W/2, W-1-c */
+function isDimensionOffset(node: ExprNode): boolean {
+    if (node.kind === 'var') return node.name === 'H' || node.name === 'W';
+    if (node.kind !== 'binary') return false;
+    if (!['+', '-', '*', '/'].includes(node.op)) return false;
+    if (!isDimensionOffset(node.left)) return false;
+    return node.right.kind === 'num' || (node.op === '-' && node.right.kind === 'var');
+}
+
+/**
+ * Whether an operand is never negative (used to keep plain / and % where
+ * floor = trunc). A fixed size is checked over the whole grid; a size read
+ * from input could be anything, so there only sums, products and quotients
+ * of constants and cell variables count.
+ */
+export function neverNegative({ H, W, input }: Pick<Program, 'H' | 'W' | 'input'>): (node: ExprNode) => boolean {
+    if (input.values !== 'none') return isNonNegativeForm;
+    return (node) => {
+        try {
+            const value = compileCellExpression(printExpression(node));
+            for (let r = 0; r < H; r++) {
+                for (let c = 0; c < W; c++) {
+                    if (value(r, c, H, W) < 0) return false;
+                }
+            }
+            return true;
+        } catch {
+            return false;
+        }
+    };
+}
+
+/** Built only from non-negative constants, variables (all at least 0), comparisons and + * / % */
+function isNonNegativeForm(node: ExprNode): boolean {
+    switch (node.kind) {
+        case 'num': return node.value >= 0;
+        case 'var': return true;
+        case 'call': return node.name === 'abs' || node.args.every(isNonNegativeForm);
+        case 'unary': return node.op === '!';
+        case 'binary':
+            if (COMPARISONS.has(node.op) || node.op === '&&' || node.op === '||') return true;
+            return ['+', '*', '/', '%'].includes(node.op) && isNonNegativeForm(node.left) && isNonNegativeForm(node.right);
+    }
+}
+
+/** Declare derived cell variables with plain ifs, as the C-family backends do: int fc = c; if (W-1-c < fc) fc = W-1-c; */
+export function declareDerivedWithIfs(program: Program, indent: string, type = 'int'): string[] {
+    const lines: string[] = [];
+    for (const { name, pick, terms } of program.derived) {
+        const compare = pick === 'min' ? '<' : '>';
+        lines.push(`${indent}${type} ${name} = ${terms[0]};`);
+        for (const term of terms.slice(1)) {
+            lines.push(`${indent}if (${term} ${compare} ${name}) ${name} = ${term};`);
+        }
+    }
+    return lines;
+}
+
+/** A character as a quoted literal, with quote and backslash escaped (C, Python and JavaScript agree) */
+export function quoteChar(char: string): string {
+    switch (char) {
+        case '\\': return "'\\\\'";
+        case '\'': return "'\\''";
+        case '\n': return "'\\n'";
+        case '\t': return "'\\t'";
+        default: return `'${char}'`;
+    }
+}
+
+/** The values a program reads, in input order: [], ['H', 'W'], ['W', 'H'] or ['N'] */
+export function inputNames(input: InputFormat): string[] {
+    return input.values === 'none' ? [] : input.values.split(' ');
+}
+
+/** A loop count that is always 0, whose loop is left out */
+export function isZero(node: ExprNode): boolean {
+    return node.kind === 'num' && !node.isChar && node.value === 0;
+}
+
+/** Indent a block of lines (including the continuation lines of wrapped conditions), leaving blank lines empty */
+export function indentLines(lines: string[], indent: string): string[] {
+    return lines.flatMap(line => line.split('\n')).map(line => (line === '' ? line : indent + line));
+}
+
+/**
+ * Statements of the animation steps in order: draw each frame, then pause
+ * unless the animation stops right after it. A timed animation is one loop
+ * over t instead, opened by `open` and closed by `close`, whose pause is
+ * `pauseBeforeLast` (the pause behind if (t < N-1)) when it does not loop.
+ */
+export function animationSteps(
+    animation: Animation,
+    draw: (frame: number) => string,
+    pause: string,
+    forT: { open: string; close?: string; pauseBeforeLast: string }
+): string[] {
+    if (animation.timed) {
+        const last = animation.loop ? pause : forT.pauseBeforeLast;
+        return [forT.open, `    ${draw(0)}`, `    ${last}`, ...(forT.close === undefined ? [] : [forT.close])];
+    }
+    return animation.sequence.flatMap((frame, i) =>
+        (animation.loop || i < animation.sequence.length - 1 ? [draw(frame), pause] : [draw(frame)]));
+}
+
+/** Which steps show a frame: "Frame 2", or "Frames 2, 4" when it repeats */
+export function frameLabel(animation: Animation, frame: number): string {
+    if (animation.timed) return `Frame t, for t = 0 to ${animation.sequence.length - 1}`;
+    const steps = animation.sequence.flatMap((shown, i) => (shown === frame ? [i + 1] : []));
+    return `${steps.length > 1 ? 'Frames' : 'Frame'} ${steps.join(', ')}`;
+}
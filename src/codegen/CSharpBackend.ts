@@ -0,0 +1,51 @@
+/**
+ * CSharpBackend - Emits a C# console program printing with Console.Write
+ */
+
+import { ClassBackend } from './ClassBackend';
+
+export class CSharpBackend extends ClassBackend {
+    readonly language = 'csharp';
+
+    protected readonly boolType = 'bool';
+    protected readonly braceOnNewLine = true;
+
+    protected fileHeader(): string[] {
+        return ['using System;', ''];
+    }
+
+    protected classLine(): string {
+        return 'public class Program';
+    }
+
+    protected mainLine(): string {
+        return 'public static void Main()';
+    }
+
+    protected printChar(value: string): string {
+        return `Console.Write(${value});`;
+    }
+
+    protected printNewline(): string {
+        return 'Console.WriteLine();';
+    }
+
+    protected mathFunction(name: string): string {
+        return `Math.${name[0].toUpperCase()}${name.slice(1)}`;
+    }
+
+    protected inputReader(): string[] {
+        return [
+            'string[] input = Console.In.ReadToEnd().Split((char[])null, StringSplitOptions.RemoveEmptyEntries);',
+            'int next = 0;  // Index of the next value to read',
+        ];
+    }
+
+    protected readInt(): string {
+        return 'int.Parse(input[next++])';
+    }
+
+    protected clock(): string {
+        return 'Environment.TickCount64';
+    }
+}
@@ -0,0 +1,350 @@
+/**
+ * ClassBackend - Shared shape of the Java and C# programs
+ *
+ * Same basic-constructs rule as the C++ output: one class with a static
+ * main, two for loops, one if / else chain, abs() and the derived
+ * variables written out by hand. Fixed cells move into static helper
+ * methods with one if per row, and long conditions into helpers with one
+ * if per || or && operand, split so no method gets near Java's 64 KB
+ * bytecode limit however big the drawing is. Row loops print each
+ * row with a loop of spaces and one of the character instead.
+ */
+
+import { Language } from '../core/types';
+import { BinaryOp, DERIVED_VARIABLES, ExprNode, collectVariables, expressionSize } from '../core/Expression';
+import {
+    Animation, Backend, Branch, C_OPERATORS, Dialect, Program, RowLoops,
+    animationSteps, declareDerivedWithIfs, frameLabel, indentLines, inputNames, isZero, quoteChar, renderCondition, renderExpression,
+} from './Backend';
+
+/** Comparisons per fixed-cell helper; a few bytes of bytecode each, far below 64 KB */
+const MAX_TESTS_PER_METHOD = 1000;
+
+/** Nodes a condition may have before it moves into helper methods of its own */
+const MAX_INLINE_NODES = 200;
+
+/** Expression nodes per condition helper; a few bytes of bytecode each, far below 64 KB */
+const MAX_NODES_PER_METHOD = 4000;
+
+/** Variables a condition helper may need, in parameter order */
+const HELPER_PARAMS = ['r', 'c', 'H', 'W', 't', ...Object.keys(DERIVED_VARIABLES)];
+
+/** Column tests per line inside a fixed-cell helper */
+const TESTS_PER_LINE = 10;
+
+export abstract class ClassBackend implements Backend {
+    abstract readonly language: Language;
+
+    protected abstract readonly boolType: string;
+    protected abstract readonly braceOnNewLine: boolean;  // C# puts every { on a line of its own
+
+    protected abstract fileHeader(readsInput: boolean): string[];
+    protected abstract classLine(): string;
+    protected abstract mainLine(): string;
+    protected abstract printChar(value: string): string;
+    protected abstract printNewline(): string;
+    protected abstract mathFunction(name: string): string;  // min -> Math.min / Math.Min
+    protected abstract inputReader(): string[];            // Declarations that set up reading the input
+    protected abstract readInt(): string;                  // The next integer of the input
+    protected abstract clock(): string;                    // Milliseconds since some fixed point, as a long
+
+    protected get dialect(): Dialect {
+        return {
+            ...C_OPERATORS,
+            not: '!',
+            notPrecedence: 10,
+            chainsComparisons: false,
+            call: (name, args) => (name === 'abs' ? `absolute(${args.join(', ')})` : `${this.mathFunction(name)}(${args.join(', ')})`),
+            charCode: (literal) => literal,
+            literals: { true: 'true', false: 'false' },
+            truncating: () => null,  // Integer / and % already truncate like C
+            widen: (product) => `1L * ${product}`,
+        };
+    }
+
+    render(program: Program): string {
+        const helpers: string[][] = [];
+        const body = [...this.declareSize(program), '', ...this.drawing(program, 'occupied', helpers)];
+        const readsInput = program.input.values !== 'none' || program.input.testCases;
+        const reader = readsInput ? [...this.inputReader().map(line => `        ${line}`), ''] : [];
+        const main = this.block('    ', this.mainLine(), program.input.testCases
+            ? [
+                ...reader,
+                `        int T = ${this.readInt()};`,
+                '',
+                ...this.block('        ', 'for (int t = 0; t < T; t++)', indentLines(body, '    ')),
+            ]
+            : [...reader, ...body]);
+
+        return this.classFile(readsInput, [main, ...this.absoluteHelper([program]), ...helpers]);
+    }
+
+    /** One drawFrame method per frame, waiting on the clock between them */
+    renderAnimation(animation: Animation): string {
+        const helpers: string[][] = [];
+        const frames = animation.frames.map((frame, k) => [
+            `    // ${frameLabel(animation, k)}`,
+            ...this.block('    ', `static void drawFrame${k + 1}(int H, int W${animation.timed ? ', int t' : ''})`, [
+                `        ${this.printChar('"\\u001b[2J\\u001b[H"')}  // Clear the screen, cursor to the top left`,
+                ...this.drawing(frame, `frame${k + 1}Occupied`, helpers),
+            ]),
+        ]);
+
+        const steps = animationSteps(
+            animation, k => `drawFrame${k + 1}(H, W${animation.timed ? ', t' : ''});`, `pause(${animation.delayMs});`, {
+                open: `for (int t = 0; t < ${animation.sequence.length}; t++)${this.braceOnNewLine ? '\n{' : ' {'}`,
+                close: '}',
+                pauseBeforeLast: `if (t < ${animation.sequence.length - 1}) pause(${animation.delayMs});`,
+            }
+        );
+        const main = this.block('    ', this.mainLine(), [
+            `        int H = ${animation.H};  // Height - change to scale`,
+            `        int W = ${animation.W};  // Width - change to scale`,
+            '',
+            ...(animation.loop ? this.block('        ', 'while (true)', indentLines(steps, '            ')) : indentLines(steps, '        ')),
+        ]);
+        const pause = [
+            '    // Wait by watching the clock',
+            ...this.block('    ', 'static void pause(int ms)', [
+                `        long end = ${this.clock()} + ms;`,
+                ...this.block('        ', `while (${this.clock()} < end)`, []),
+            ]),
+        ];
+
+        return this.classFile(false, [main, ...frames, pause, ...this.absoluteHelper(animation.frames), ...helpers]);
+    }
+
+    /**
+     * The two loops printing every cell; fixed cells and long conditions add
+     * their helper methods, named from `prefix`, to `helpers`
+     */
+    private drawing(program: Program, prefix: string, helpers: string[][]): string[] {
+        if (program.rowLoops) return this.rowLoops(program.rowLoops);
+        const conditions = program.branches.map((branch, i) => {
+            const name = branch.output.kind === 'char' ? `${prefix}${branch.output.char.charCodeAt(0)}` : `${prefix}${i}`;
+            if (branch.condition.kind === 'cells') {
+                helpers.push(this.cellHelpers(name, branch));
+                return `${name}(r, c)`;
+            }
+            const { node } = branch.condition;
+            if (expressionSize(node) <= MAX_INLINE_NODES) {
+                return renderCondition(node, this.dialect, { indent: ' '.repeat(20), parenthesize: false });
+            }
+            const used = collectVariables(node);
+            const params = HELPER_PARAMS.filter(v => used.has(v));
+            helpers.push(this.conditionHelpers(name, branch, node, params));
+            return `${name}(${params.join(', ')})`;
+        });
+
+        const loop = [
+            ...declareDerivedWithIfs(program, ' '.repeat(16)),
+            ...this.ifChain(program.branches, conditions),
+        ];
+        return this.block('        ', 'for (int r = 0; r < H; r++)', [
+            ...this.block('            ', 'for (int c = 0; c < W; c++)', loop),
+            `            ${this.printNewline()}`,
+        ]);
+    }
+
+    /** Per row, a loop printing the spaces and a loop printing the character */
+    private rowLoops({ char, runs }: RowLoops): string[] {
+        const render = (node: ExprNode) => renderExpression(node, this.dialect);
+        return runs.flatMap((run, i) => [
+            ...(i > 0 ? [''] : []),
+            ...this.block('        ', `for (int r = ${render(run.from)}; r < ${render(run.to)}; r++)`, [
+                ...(isZero(run.spaces) ? [] : [`            for (int s = 0; s < ${render(run.spaces)}; s++) ${this.printChar("' '")}`]),
+                ...(isZero(run.count) ? [] : [`            for (int k = 0; k < ${render(run.count)}; k++) ${this.printChar(this.charLiteral(char))}`]),
+                `            ${this.printNewline()}`,
+            ]),
+        ]);
+    }
+
+    /** The absolute() helper, when a program calls abs() */
+    private absoluteHelper(programs: Program[]): string[][] {
+        if (!programs.some(p => p.branches.some(b => b.condition.kind === 'expression' && /\babs\(/.test(b.condition.source)))) return [];
+        return [this.block('    ', 'static int absolute(int x)', [
+            '        if (x < 0) return -x;',
+            '        return x;',
+        ])];
+    }
+
+    /** The class holding the given members, separated by blank lines */
+    private classFile(readsInput: boolean, members: string[][]): string {
+        const body = members.flatMap((lines, i) => (i === 0 ? lines : ['', ...lines]));
+        return [...this.fileHeader(readsInput), ...this.block('', this.classLine(), body)].join('\n');
+    }
+
+    /** H and W as values to change by hand (row loops only use H), or read from the input */
+    private declareSize(program: Program): string[] {
+        const names = inputNames(program.input);
+        if (names.length === 0) {
+            return [
+                `        int H = ${program.H};  // Height - change to scale`,
+                ...(program.rowLoops ? [] : [`        int W = ${program.W};  // Width - change to scale`]),
+            ];
+        }
+        const lines = names.map(name => `        int ${name} = ${this.readInt()};`);
+        if (names[0] === 'N') lines.push(program.rowLoops ? '        int H = N;' : '        int H = N, W = N;');
+        return lines;
+    }
+
+    /** The if / else if / else chain printing one cell */
+    private ifChain(branches: Branch[], conditions: string[]): string[] {
+        const indent = ' '.repeat(16);
+        const print = (value: string) => `${indent}    ${this.printChar(value)}`;
+        if (branches.length === 0) return [`${indent}${this.printChar("' '")}`];
+
+        const lines: string[] = [];
+        branches.forEach((branch, i) => {
+            const value = branch.output.kind === 'computed'
+                ? `(char)(${renderExpression(branch.output.node, this.dialect)})`
+                : this.charLiteral(branch.output.char);
+            const head = `${i === 0 ? 'if' : 'else if'} (${conditions[i]})`;
+
+            if (this.braceOnNewLine) {
+                lines.push(`${indent}${head}`, `${indent}{`, print(value), `${indent}}`);
+            } else {
+                lines.push(i === 0 ? `${indent}${head} {` : `${indent}} ${head} {`, print(value));
+            }
+        });
+
+        if (this.braceOnNewLine) {
+            lines.push(`${indent}else`, `${indent}{`, print("' '"), `${indent}}`);
+        } else {
+            lines.push(`${indent}} else {`, print("' '"), `${indent}}`);
+        }
+        return lines;
+    }
+
+    /**
+     * Static methods telling whether (r, c) is one of the fixed cells: one if
+     * per row, continuing in a next method once this one has enough tests
+     */
+    private cellHelpers(name: string, branch: Branch): string[] {
+        const cells = branch.condition.kind === 'cells' ? branch.condition.cells : [];
+        const byRow = new Map<number, number[]>();
+        for (const cell of cells) {
+            if (!byRow.has(cell.row)) byRow.set(cell.row, []);
+            byRow.get(cell.row)!.push(cell.col);
+        }
+
+        const parts: Array<Array<[number, number[]]>> = [[]];
+        let tests = 0;
+        for (const row of byRow) {
+            if (tests > 0 && tests + row[1].length + 1 > MAX_TESTS_PER_METHOD) {
+                parts.push([]);
+                tests = 0;
+            }
+            parts[parts.length - 1].push(row);
+            tests += row[1].length + 1;
+        }
+
+        const partName = (k: number) => (k === 0 ? name : `${name}Part${k + 1}`);
+        const what = branch.output.kind === 'char' ? quoteChar(branch.output.char) : 'this branch';
+        const lines = [`    // Fixed cells of ${what}`];
+
+        parts.forEach((rows, k) => {
+            const body = rows.map(([row, cols]) => `        if (r == ${row}) return ${this.columnTests(cols)};`);
+            body.push(k + 1 < parts.length ? `        return ${partName(k + 1)}(r, c);` : '        return false;');
+            if (k > 0) lines.push('');
+            lines.push(...this.block('    ', `static ${this.boolType} ${partName(k)}(int r, int c)`, body));
+        });
+        return lines;
+    }
+
+    /**
+     * Static methods testing a long condition: one if per operand of its
+     * || or && chain, continuing in a next method once this one has enough
+     * nodes; a long operand gets helpers of its own
+     */
+    private conditionHelpers(name: string, branch: Branch, node: ExprNode, params: string[]): string[] {
+        const methods: string[][] = [];
+        let count = 1;
+        const nextName = () => `${name}Part${++count}`;
+        const call = (method: string) => `${method}(${params.join(', ')})`;
+        const signature = (method: string) => `static ${this.boolType} ${method}(${params.map(p => `int ${p}`).join(', ')})`;
+        const isLong = (node: ExprNode) => expressionSize(node) > MAX_INLINE_NODES;
+
+        const addMethods = (method: string, node: ExprNode): void => {
+            const op = node.kind === 'binary' && (node.op === '||' || node.op === '&&') ? node.op : null;
+            if (!op) {
+                if (node.kind === 'unary' && node.op === '!' && isLong(node.arg)) {
+                    const inner = nextName();
+                    methods.push(this.block('    ', signature(method), [`        return !${call(inner)};`]));
+                    addMethods(inner, node.arg);
+                } else {
+                    methods.push(this.block('    ', signature(method), [`        return ${renderExpression(node, this.dialect)};`]));
+                }
+                return;
+            }
+
+            // || returns true at the first operand that holds, && false at the first that fails
+            const tests = chainOperands(node, op).map(operand => {
+                const negated = op === '&&' && operand.kind === 'unary' && operand.op === '!';
+                const tested = negated && operand.kind === 'unary' ? operand.arg : operand;
+                return { tested, when: op === '||' || negated, size: isLong(tested) ? 1 : expressionSize(tested) };
+            });
+
+            const parts: Array<typeof tests> = [[]];
+            let size = 0;
+            for (const test of tests) {
+                if (size > 0 && size + test.size > MAX_NODES_PER_METHOD) {
+                    parts.push([]);
+                    size = 0;
+                }
+                parts[parts.length - 1].push(test);
+                size += test.size;
+            }
+
+            const names = parts.map((_, k) => (k === 0 ? method : nextName()));
+            const nested: Array<{ method: string; node: ExprNode }> = [];
+            const line = ({ tested, when }: (typeof tests)[number]) => {
+                let text: string;
+                if (isLong(tested)) {
+                    nested.push({ method: nextName(), node: tested });
+                    text = call(nested[nested.length - 1].method);
+                } else {
+                    text = renderCondition(tested, this.dialect, { indent: ' '.repeat(12), parenthesize: false });
+                }
+                return `        if (${when ? text : `!(${text})`}) return ${op === '||'};`;
+            };
+            parts.forEach((part, k) => methods.push(this.block('    ', signature(names[k]), [
+                ...part.map(line),
+                `        return ${k + 1 < parts.length ? call(names[k + 1]) : op === '&&'};`,
+            ])));
+            for (const { method, node } of nested) addMethods(method, node);
+        };
+
+        addMethods(name, node);
+        const what = branch.output.kind === 'char' ? quoteChar(branch.output.char) : 'this branch';
+        return [`    // When to print ${what}, split over methods`, ...methods.flatMap((lines, k) => (k === 0 ? lines : ['', ...lines]))];
+    }
+
+    /** c == 1 || c == 4 || ..., broken over lines when long */
+    private columnTests(cols: number[]): string {
+        const tests = cols.map(col => `c == ${col}`);
+        const lines: string[] = [];
+        for (let i = 0; i < tests.length; i += TESTS_PER_LINE) lines.push(tests.slice(i, i + TESTS_PER_LINE).join(' || '));
+        return lines.join(' ||\n                ');
+    }
+
+    /** A block in the language's brace style */
+    private block(indent: string, head: string, body: string[]): string[] {
+        return this.braceOnNewLine
+            ? [`${indent}${head}`, `${indent}{`, ...body, `${indent}}`]
+            : [`${indent}${head} {`, ...body, `${indent}}`];
+    }
+
+    /** A char literal; anything outside printable ASCII as a \u escape, which both languages read */
+    protected charLiteral(char: string): string {
+        const code = char.charCodeAt(0);
+        if (code >= 32 && code < 127) return quoteChar(char);
+        return `'\\u${code.toString(16).padStart(4, '0')}'`;
+    }
+}
+
+/** The operands of a chain like a || b || c, in order */
+function chainOperands(node: ExprNode, op: BinaryOp): ExprNode[] {
+    if (node.kind === 'binary' && node.op === op) return [...chainOperands(node.left, op), ...chainOperands(node.right, op)];
+    return [node];
+}
@@ -0,0 +1,258 @@
+import { describe, expect, it } from 'vitest';
+import { Grid } from '../core/Grid';
+import { CodeStyle, Language, Predicate, RowLayout } from '../core/types';
+import { AnimationGenerator } from './AnimationGenerator';
+import { CodeGenerator } from './CodeGenerator';
+
+/** A predicate as the analyzer would hand it over */
+function predicate(char: string, expression: string): Predicate {
+    return { type: 'synthesized', char, expression, params: ['H', 'W'], isScalable: true, confidence: 1 };
+}
+
+/** What a generated JavaScript program prints, given its standard input */
+function runJavaScript(code: string, stdin = ''): string {
+    let output = '';
+    const require = () => ({ readFileSync: () => stdin });
+    const process = { stdout: { write: (text: string) => { output += text; } } };
+    new Function('require', 'process', code)(require, process);
+    return output;
+}
+
+const box = [
+    predicate('#', 'r == 0 || r == H-1 || c == 0 || c == W-1'),
+    predicate('\\', 'r == c'),
+    predicate('.', '(c - r) % 3 == 0'),
+];
+
+describe('CodeGenerator', () => {
+    it('computes products of three or more sizes in 64 bits where an int would overflow', () => {
+        const ellipse = [predicate('o', [
+            '(2 * c - W + 1) * (2 * c - W + 1) * (H-1) * (H-1) + (2 * r - H + 1) * (2 * r - H + 1) * (W-1) * (W-1)',
+            '<= (W-1) * (W-1) * (H-1) * (H-1)',
+        ].join(' '))];
+        const generate = (language: Language) => new CodeGenerator(ellipse, 9, 13, new Map(), {
+            language, style: 'idiomatic', input: { values: 'H W', testCases: false },
+        }).generate().code;
+
+        expect(generate('cpp')).toContain('1LL * (2 * c - W + 1)');
+        expect(generate('java')).toContain('1L * (2 * c - W + 1)');
+        expect(generate('csharp')).toContain('1L * (2 * c - W + 1)');
+        expect(generate('python')).not.toContain('1L');
+        expect(runJavaScript(generate('javascript'), '5 9')).toBe([
+            '    o    ',
+            ' ooooooo ',
+            'ooooooooo',
+            ' ooooooo ',
+            '    o    ',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes a JavaScript program that prints the drawing at the size it reads', () => {
+        const { code, warnings } = new CodeGenerator(box, 6, 8, new Map(), {
+            language: 'javascript', input: { values: 'H W', testCases: false },
+        }).generate();
+
+        expect(warnings).toEqual([]);
+        expect(runJavaScript(code, '6 8')).toBe([
+            '########',
+            '#\\  .  #',
+            '# \\  . #',
+            '#  \\  .#',
+            '#.  \\  #',
+            '########',
+            '',
+        ].join('\n'));
+    });
+
+    it("writes a Python program with the same chain, and C's % for a negative operand", () => {
+        const { code } = new CodeGenerator(box, 6, 8, new Map(), {
+            language: 'python', input: { values: 'H W', testCases: false },
+        }).generate();
+
+        expect(code).toContain('H, W = map(int, input().split())');
+        expect(code).toContain("        if r == 0 or r == H-1 or c == 0 or c == W-1:\n            print('#', end='')");
+        expect(code).toContain("        elif r == c:\n            print('\\\\', end='')");
+        expect(code).toContain("        elif c_mod(c - r, 3) == 0:\n            print('.', end='')");
+        expect(code).toContain('def c_mod(a, b):');
+    });
+
+    it('keeps floor division in Python only when it cannot differ from C for any input', () => {
+        const halves = [predicate('|', 'c == (W - 9) / 2'), predicate('.', '(r + c) % 3 == 0')];
+        const generate = (values: 'none' | 'H W') => new CodeGenerator(halves, 6, 12, new Map(), {
+            language: 'python', input: { values, testCases: false },
+        }).generate().code;
+
+        expect(generate('none')).toContain('c == (W-9)//2');
+        expect(generate('H W')).toContain('c == int((W-9) / 2)');
+        expect(generate('H W')).toContain('(r + c) % 3 == 0');
+    });
+
+    it('writes Java and C# programs that read the size and print the same chain', () => {
+        const generate = (language: Language) => new CodeGenerator(box, 6, 8, new Map(), {
+            language, input: { values: 'H W', testCases: false },
+        }).generate().code;
+
+        const java = generate('java');
+        expect(java).toContain('public class Main {');
+        expect(java).toContain('        int H = in.nextInt();\n        int W = in.nextInt();');
+        expect(java).toContain("} else if ((c - r) % 3 == 0) {\n                    System.out.print('.');");
+
+        const csharp = generate('csharp');
+        expect(csharp).toContain('public class Program');
+        expect(csharp).toContain('        int H = int.Parse(input[next++]);\n        int W = int.Parse(input[next++]);');
+        expect(csharp).toContain("else if ((c - r) % 3 == 0)\n                {\n                    Console.Write('.');");
+    });
+
+    it.each([
+        ['java', 'static boolean occupied42(int r, int c)'],
+        ['csharp', 'static bool occupied42(int r, int c)'],
+    ] as const)('moves a long condition into helper methods in %s', (language, helper) => {
+        const cells = Array.from({ length: 300 }, (_, i) => `(r == ${i % 40} && c == ${(i * 7) % 50})`);
+        const { code } = new CodeGenerator([predicate('*', cells.join(' || '))], 40, 50, new Map(), { language }).generate();
+
+        expect(code).toContain('if (occupied42(r, c))');
+        expect(code).toContain(helper);
+    });
+
+    it('writes C++ in the chosen style', () => {
+        const generate = (style: CodeStyle) => new CodeGenerator(box, 6, 8, new Map(), {
+            language: 'cpp', style, input: { values: 'H W', testCases: false },
+        }).generate().code;
+
+        const beginner = generate('beginner');
+        expect(beginner).toContain('using namespace std;');
+        expect(beginner).toContain('    cin >> H >> W;');
+        expect(beginner).toContain("            } else if ((c - r) % 3 == 0) {\n                cout << '.';");
+
+        const idiomatic = generate('idiomatic');
+        expect(idiomatic).not.toContain('using namespace std;');
+        expect(idiomatic).toContain('    auto cellAt = [&](int r, int c) -> char {');
+        expect(idiomatic).toContain("        if ((c - r) % 3 == 0) return '.';");
+
+        expect(generate('compact').split('\n')).toEqual([
+            '#include<cstdio>',
+            'int main(){int H,W;scanf("%d%d",&H,&W);for(int r=0;r<H;r++,puts(""))for(int c=0;c<W;c++)' +
+                'putchar(r==0||r==H-1||c==0||c==W-1?35:r==c?92:(c-r)%3==0?46:32);}',
+        ]);
+    });
+
+    describe('reading the size from standard input', () => {
+        // What the box chain prints at a size
+        const boxAt = (H: number, W: number) => Array.from({ length: H }, (_, r) =>
+            Array.from({ length: W }, (_, c) =>
+                r === 0 || r === H - 1 || c === 0 || c === W - 1 ? '#' : r === c ? '\\' : (c - r) % 3 === 0 ? '.' : ' '
+            ).join('') + '\n'
+        ).join('');
+
+        it.each([
+            ['H W', false, '5 9', boxAt(5, 9)],
+            ['W H', false, '9 5', boxAt(5, 9)],
+            ['N', false, '4', boxAt(4, 4)],
+            ['H W', true, '2\n5 9\n3 4', boxAt(5, 9) + boxAt(3, 4)],
+            ['N', true, '3\n4 2 7', boxAt(4, 4) + boxAt(2, 2) + boxAt(7, 7)],
+            ['none', true, '2', boxAt(6, 6) + boxAt(6, 6)],
+        ] as const)('reads %s (test cases: %s) from %j', (values, testCases, stdin, expected) => {
+            const { code } = new CodeGenerator(box, 6, 6, new Map(), { language: 'javascript', input: { values, testCases } }).generate();
+
+            expect(runJavaScript(code, stdin)).toBe(expected);
+        });
+
+        it('reads H and W instead of N for a drawing that is not square', () => {
+            const { code, warnings } = new CodeGenerator(box, 6, 8, new Map(), {
+                language: 'javascript', input: { values: 'N', testCases: false },
+            }).generate();
+
+            expect(warnings).toContain('⚠ The drawing is 6x8, not square - the program reads H and W instead of N.');
+            expect(runJavaScript(code, '5 9')).toBe(boxAt(5, 9));
+        });
+
+        it('reads nothing when the size is written into the program', () => {
+            const { code } = new CodeGenerator(box, 6, 8, new Map(), { language: 'javascript', input: { values: 'none', testCases: false } }).generate();
+
+            expect(code).not.toContain('readFileSync');
+            expect(runJavaScript(code)).toBe(boxAt(6, 8));
+        });
+
+        it.each([
+            ['cpp', 'cin >> T;'],
+            ['python', 'T = int(input())'],
+            ['java', 'int T = in.nextInt();'],
+            ['csharp', 'int T = int.Parse(input[next++]);'],
+        ] as const)('reads the number of test cases first in %s', (language, line) => {
+            const { code } = new CodeGenerator(box, 6, 8, new Map(), { language, input: { values: 'H W', testCases: true } }).generate();
+
+            expect(code).toContain(line);
+        });
+    });
+});
+
+describe('CodeGenerator row loops', () => {
+    // A left-aligned triangle of stars, one more per row
+    const layout: RowLayout = { char: '*', runs: [{ from: '0', to: 'H', spaces: '0', count: 'r + 1' }] };
+    const triangle = (H: number) => Array.from({ length: H }, (_, r) => '*'.repeat(r + 1) + '\n').join('');
+
+    it('prints the rows at the height it reads', () => {
+        const { code } = new CodeGenerator([], 4, 4, new Map(), {
+            language: 'javascript', input: { values: 'N', testCases: false }, rows: layout,
+        }).generate();
+
+        expect(runJavaScript(code, '6')).toBe(triangle(6));
+    });
+
+    it.each([
+        ['cpp', 'for (int k = 0; k < r + 1; k++)'],
+        ['python', "    for k in range(r + 1):\n        print('*', end='')"],
+    ] as const)('writes a loop of characters per row in %s', (language, line) => {
+        const { code } = new CodeGenerator([], 4, 4, new Map(), { language, rows: layout }).generate();
+
+        expect(code).toContain(line);
+    });
+});
+
+describe('CodeGenerator over time', () => {
+    const moving = [predicate('o', 'r == 1 && c == t')];
+    const generate = (loop: boolean) => new CodeGenerator(moving, 3, 4, new Map(), {
+        language: 'javascript', time: { frames: 4, loop, delayMs: 0 },
+    }).generate().code;
+
+    it('draws the frame for each t in turn', () => {
+        const frame = (t: number) => '\x1b[2J\x1b[H' + '    \n' + ' '.repeat(t) + 'o' + ' '.repeat(3 - t) + '\n    \n';
+
+        expect(runJavaScript(generate(false))).toBe([0, 1, 2, 3].map(frame).join(''));
+    });
+
+    it('does not pause after the last step of a timed animation that stops', () => {
+        expect(generate(false)).toContain('if (t < 3) pause(0);');
+        expect(generate(true)).not.toContain('if (t < 3)');
+    });
+});
+
+describe('AnimationGenerator', () => {
+    const clear = '\x1b[2J\x1b[H';
+    const frames = [
+        { predicates: [predicate('o', 'r == c')], cellsByChar: new Map() },
+        { predicates: [predicate('x', 'r + c == H-1')], cellsByChar: new Map() },
+    ];
+
+    it('plays the frames in order, sharing one routine between frames that look the same', () => {
+        const { code } = new AnimationGenerator(frames, [0, 1, 0], 3, 3, { language: 'javascript', loop: false, delayMs: 0 }).generate();
+
+        expect(code).toContain('// Frames 1, 3\nfunction drawFrame1() {');
+        expect(runJavaScript(code)).toBe([
+            clear + 'o  \n o \n  o\n',
+            clear + '  x\n x \nx  \n',
+            clear + 'o  \n o \n  o\n',
+        ].join(''));
+    });
+
+    it('finds the distinct frames of an animation', () => {
+        const grid = (char: string) => {
+            const frame = new Grid(2, 2);
+            frame.setCell(0, 0, char, 0);
+            return frame;
+        };
+
+        expect(AnimationGenerator.distinctFrames([grid('a'), grid('b'), grid('a')])).toEqual({ distinct: [0, 1], sequence: [0, 1, 0] });
+    });
+});
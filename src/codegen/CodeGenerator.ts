@@ -1,176 +1,153 @@
 /**
- * CodeGenerator - Emits BASIC C++ code
- * 
- * RULES:
- * - ONLY #include <iostream>
- * - ONLY basic for loops
- * - ONLY simple if/else
- * - NO std::set, NO std::pair, NO advanced features
- * - For coordinate fallback: use simple OR chain
+ * CodeGenerator - Turns predicates into a program in the chosen language
+ *
+ * Predicates become a language-neutral Program (see Backend.ts): the grid
+ * size, the derived cell variables in use and an if/else chain of
+ * expression ASTs. The backend of the language renders it. A drawing
+ * with one run per row (see PatternAnalyzer.analyzeRows) can instead be
+ * printed row by row with a loop of spaces and a loop of its character.
  */
 
-import { Predicate, GeneratedCode, GridCoord } from '../core/types';
+import { Predicate, GeneratedCode, GridCoord, Language, CodeStyle, InputFormat, RowLayout } from '../core/types';
+import { DERIVED_VARIABLES, parseExpression } from '../core/Expression';
+import { Backend, Program } from './Backend';
+import { CppBackend } from './CppBackend';
+import { PythonBackend } from './PythonBackend';
+import { JavaScriptBackend } from './JavaScriptBackend';
+import { JavaBackend } from './JavaBackend';
+import { CSharpBackend } from './CSharpBackend';
+
+export const BACKENDS: Record<Language, () => Backend> = {
+    cpp: () => new CppBackend(),
+    python: () => new PythonBackend(),
+    javascript: () => new JavaScriptBackend(),
+    java: () => new JavaBackend(),
+    csharp: () => new CSharpBackend(),
+};
+
+export interface GeneratorOptions {
+    /** Target language (default C++) */
+    language?: Language;
+    /** Style profile; languages other than C++ have one style and ignore it (default beginner) */
+    style?: CodeStyle;
+    /** What the program reads from standard input (default nothing: H and W are fixed in the code) */
+    input?: InputFormat;
+    /** Show the predicates, which may use the frame number t, as frames t = 0 .. frames-1 (H and W then stay fixed) */
+    time?: { frames: number; loop: boolean; delayMs: number };
+    /** Print each row with loops of spaces and characters instead of testing every cell (ignores the predicates) */
+    rows?: RowLayout;
+}
 
 export class CodeGenerator {
     private predicates: Predicate[];
     private H: number;
     private W: number;
     private cellsByChar: Map<string, GridCoord[]>;
+    private options: Required<Omit<GeneratorOptions, 'time' | 'rows'>> & Pick<GeneratorOptions, 'time' | 'rows'>;
 
     constructor(
         predicates: Predicate[],
         H: number,
         W: number,
-        cellsByChar: Map<string, GridCoord[]>
+        cellsByChar: Map<string, GridCoord[]>,
+        options: GeneratorOptions = {}
     ) {
         this.predicates = predicates;
         this.H = H;
         this.W = W;
         this.cellsByChar = cellsByChar;
+        this.options = { language: 'cpp', style: 'beginner', input: { values: 'none', testCases: false }, ...options };
     }
 
-    /** Generate complete C++ program - BASIC ONLY */
+    /** Generate the complete program */
     generate(): GeneratedCode {
         const warnings: string[] = [];
-        const params = new Map<string, number>();
-        params.set('H', this.H);
-        params.set('W', this.W);
+        const { language, style, time, rows } = this.options;
+        const input: InputFormat = time ? { values: 'none', testCases: false } : this.resolveInput(warnings);
+        const params = this.inputParams(input);
 
-        const hasCoordinateSets = this.predicates.some(p => p.type === 'coordinate_set');
+        const hasCoordinateSets = !rows && this.predicates.some(p => p.type === 'coordinate_set');
         const isScalable = !hasCoordinateSets;
 
         if (hasCoordinateSets) {
             warnings.push('⚠ Contains fixed coordinates - will not scale with H/W changes.');
         }
 
-        const code = this.buildCode();
-
-        return { code, params, warnings, isScalable };
+        const backend = BACKENDS[language]();
+        const code = time
+            ? backend.renderAnimation({
+                H: this.H,
+                W: this.W,
+                frames: [this.buildProgram(input)],
+                sequence: new Array(time.frames).fill(0),
+                loop: time.loop,
+                delayMs: time.delayMs,
+                timed: true,
+            }, style)
+            : backend.render(this.buildProgram(input), style);
+
+        return { language, style, code, params, warnings, isScalable };
     }
 
-    private buildCode(): string {
-        const lines: string[] = [];
-
-        // ONLY iostream - nothing else
-        lines.push('#include <iostream>');
-        lines.push('using namespace std;');
-        lines.push('');
-        lines.push('int main() {');
-        lines.push(`    int H = ${this.H};  // Height - change to scale`);
-        lines.push(`    int W = ${this.W};  // Width - change to scale`);
-        lines.push('');
-
-        // Simple nested loops
-        lines.push('    for (int r = 0; r < H; r++) {');
-        lines.push('        for (int c = 0; c < W; c++) {');
-
-        // Generate conditions
-        const conditions = this.generateConditions();
-        lines.push(conditions);
-
-        lines.push('        }');
-        lines.push('        cout << endl;');
-        lines.push('    }');
-        lines.push('');
-        lines.push('    return 0;');
-        lines.push('}');
-
-        return lines.join('\n');
-    }
-
-    /** Generate simple if-else chain */
-    private generateConditions(): string {
-        if (this.predicates.length === 0) {
-            return "            cout << ' ';";
-        }
-
-        const lines: string[] = [];
-
-        for (let i = 0; i < this.predicates.length; i++) {
-            const pred = this.predicates[i];
-            const condition = this.predicateToCondition(pred);
-            const charLiteral = this.charToLiteral(pred.char);
-
-            if (i === 0) {
-                lines.push(`            if (${condition}) {`);
-            } else {
-                lines.push(`            } else if (${condition}) {`);
-            }
-            lines.push(`                cout << ${charLiteral};`);
+    /** The language-neutral program: one branch per predicate, in chain order, or the row loops */
+    buildProgram(input: InputFormat = this.options.input): Program {
+        const { rows } = this.options;
+        if (rows) {
+            const runs = rows.runs.map(run => ({
+                from: parseExpression(run.from),
+                to: parseExpression(run.to),
+                spaces: parseExpression(run.spaces),
+                count: parseExpression(run.count),
+            }));
+            return { H: this.H, W: this.W, input, derived: [], branches: [], rowLoops: { char: rows.char, runs } };
         }
 
-        // Default: space
-        lines.push('            } else {');
-        lines.push("                cout << ' ';");
-        lines.push('            }');
-
-        return lines.join('\n');
+        return {
+            H: this.H,
+            W: this.W,
+            input,
+            derived: this.usedDerivedVariables(),
+            branches: this.predicates.map(pred => ({
+                condition: pred.type === 'coordinate_set'
+                    ? { kind: 'cells', cells: this.cellsByChar.get(pred.char) || [] }
+                    : { kind: 'expression', node: parseExpression(pred.expression), source: pred.expression },
+                output: pred.charExpression
+                    ? { kind: 'computed', node: parseExpression(pred.charExpression), source: pred.charExpression }
+                    : { kind: 'char', char: pred.char },
+            })),
+        };
     }
 
-    /** Convert predicate to BASIC C++ condition */
-    private predicateToCondition(pred: Predicate): string {
-        // If it's a coordinate set, generate simple OR chain
-        if (pred.type === 'coordinate_set') {
-            const cells = this.cellsByChar.get(pred.char) || [];
-            return this.generateCoordinateCondition(cells);
-        }
-        return pred.expression;
-    }
+    /** The requested input format; a single size N only fits square drawings or row loops, otherwise H and W are read */
+    private resolveInput(warnings: string[]): InputFormat {
+        const { input, rows } = this.options;
+        if (input.values !== 'N' || this.H === this.W || rows) return input;
 
-    /** Generate simple (r==X && c==Y) || ... chain */
-    private generateCoordinateCondition(cells: GridCoord[]): string {
-        if (cells.length === 0) return 'false';
-
-        // If too many cells, group by row for readability
-        if (cells.length > 20) {
-            return this.generateGroupedCondition(cells);
-        }
-
-        // Simple OR chain
-        const conditions = cells.map(c => `(r==${c.row} && c==${c.col})`);
-
-        // Break into lines if many conditions
-        if (conditions.length <= 5) {
-            return conditions.join(' || ');
-        }
-
-        // Multi-line for readability
-        return conditions.join(' ||\n                ');
+        warnings.push(`⚠ The drawing is ${this.H}x${this.W}, not square - the program reads H and W instead of N.`);
+        return { ...input, values: 'H W' };
     }
 
-    /** Group coordinates by row for cleaner code */
-    private generateGroupedCondition(cells: GridCoord[]): string {
-        // Group cells by row
-        const byRow = new Map<number, number[]>();
-        for (const cell of cells) {
-            if (!byRow.has(cell.row)) {
-                byRow.set(cell.row, []);
-            }
-            byRow.get(cell.row)!.push(cell.col);
-        }
-
-        const rowConditions: string[] = [];
-        for (const [row, cols] of byRow) {
-            if (cols.length === 1) {
-                rowConditions.push(`(r==${row} && c==${cols[0]})`);
-            } else {
-                // Multiple columns in same row
-                const colChecks = cols.map(c => `c==${c}`).join(' || ');
-                rowConditions.push(`(r==${row} && (${colChecks}))`);
-            }
-        }
+    /** What the program reads, in order, with the drawing's values as the sample input */
+    private inputParams(input: InputFormat): Map<string, number> {
+        const params = new Map<string, number>();
+        if (input.testCases) params.set('T', 1);
 
-        return rowConditions.join(' ||\n                ');
+        const values: Record<string, number> = { H: this.H, W: this.W, N: this.H };
+        const names = input.values === 'none' ? ['H', 'W'] : input.values.split(' ');
+        for (const name of names) params.set(name, values[name]);
+        return params;
     }
 
-    /** Convert character to C++ char literal */
-    private charToLiteral(char: string): string {
-        switch (char) {
-            case '\\': return "'\\\\'";
-            case '\'': return "'\\''";
-            case '\n': return "'\\n'";
-            case '\t': return "'\\t'";
-            default: return `'${char}'`;
-        }
+    /** Derived cell variables the predicates use, e.g. fc = min(c, W-1-c) */
+    private usedDerivedVariables(): Program['derived'] {
+        if (this.predicates.length === 0) return [];
+
+        return Object.entries(DERIVED_VARIABLES)
+            .filter(([name]) => {
+                const pattern = new RegExp(`\\b${name}\\b`);
+                return this.predicates.some(p =>
+                    (p.type !== 'coordinate_set' && pattern.test(p.expression)) || pattern.test(p.charExpression ?? ''));
+            })
+            .map(([name, { pick, terms }]) => ({ name, pick, terms }));
     }
 }
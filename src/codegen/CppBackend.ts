@@ -0,0 +1,539 @@
+/**
+ * CppBackend - Emits C++ code in one of three style profiles
+ *
+ * beginner (default) RULES:
+ * - ONLY #include <iostream>
+ * - ONLY basic for loops
+ * - ONLY simple if/else
+ * - NO std::set, NO std::pair, NO advanced features
+ * - For coordinate fallback: use simple OR chain
+ * - abs() becomes a hand-written helper function
+ * - Folded coordinates (fr, fc...) are declared with plain ifs
+ *
+ * idiomatic: the standard library as it is usually written - a cellAt
+ * lambda returning each character, std::min / std::abs, fixed cells in a
+ * std::set and each row built as a std::string.
+ *
+ * compact: as few characters as possible - one nested ternary per cell,
+ * putchar with character codes and no spaces.
+ *
+ * Row loops replace the cell loops with a loop of spaces and a loop of the
+ * character per row; the idiomatic profile prints each run as a std::string.
+ */
+
+import { CodeStyle, GridCoord } from '../core/types';
+import { ExprNode, cellsCondition, parseExpression, printOperands } from '../core/Expression';
+import {
+    Animation, Backend, Branch, C_OPERATORS, Dialect, Program, RowLoops,
+    animationSteps, declareDerivedWithIfs, frameLabel, hasWideProduct, indentLines, inputNames, isZero, quoteChar, renderCondition, renderExpression,
+} from './Backend';
+
+/** Standard library spelling, used by the idiomatic profile */
+const CPP: Dialect = {
+    ...C_OPERATORS,
+    not: '!',
+    notPrecedence: 10,
+    chainsComparisons: false,
+    call: (name, args) => `std::${name}(${args.join(', ')})`,
+    charCode: (literal) => literal,
+    literals: { true: 'true', false: 'false' },
+    truncating: () => null,
+    widen: (product) => `1LL * ${product}`,
+};
+
+/** No spaces anywhere, used by the compact profile */
+const CPP_COMPACT: Dialect = {
+    ...CPP,
+    call: (name, args) => `${name === 'abs' ? '' : 'std::'}${name}(${args.join(',')})`,
+    literals: { true: '1', false: '0' },
+    compact: true,
+    widen: (product) => `1LL*${product}`,
+};
+
+/** Plain function names, used by the beginner profile where a condition needs 64-bit products */
+const CPP_BEGINNER: Dialect = {
+    ...CPP,
+    call: (name, args) => `${name === 'abs' ? 'absolute' : name}(${args.join(', ')})`,
+};
+
+/** Fixed cells per line of a std::set initializer */
+const CELLS_PER_LINE = 8;
+
+/** Rough iterations of an empty counting loop per millisecond, for the delay of beginner and compact animations */
+const LOOPS_PER_MS = 300000;
+
+/** Size fixed in the code, as animations always have */
+const FIXED_SIZE = { values: 'none', testCases: false } as const;
+
+export class CppBackend implements Backend {
+    readonly language = 'cpp';
+
+    render(program: Program, style: CodeStyle = 'beginner'): string {
+        switch (style) {
+            case 'idiomatic': return this.renderIdiomatic(program);
+            case 'compact': return this.renderCompact(program);
+            default: return this.renderBeginner(program);
+        }
+    }
+
+    renderAnimation(animation: Animation, style: CodeStyle = 'beginner'): string {
+        switch (style) {
+            case 'idiomatic': return this.renderIdiomaticAnimation(animation);
+            case 'compact': return this.renderCompactAnimation(animation);
+            default: return this.renderBeginnerAnimation(animation);
+        }
+    }
+
+    private renderBeginner(program: Program): string {
+        const lines = this.beginnerHeader([program]);
+
+        lines.push('int main() {');
+        const body = [...this.declareSize(program, 'cin', 'int', '    '), '', ...this.beginnerDrawing(program)];
+        lines.push(...this.repeatPerTestCase(program, 'cin', body));
+        lines.push('');
+        lines.push('    return 0;');
+        lines.push('}');
+
+        return lines.join('\n');
+    }
+
+    /** One drawFrame function per frame; pausing is a counting loop, as there is no clock in <iostream> */
+    private renderBeginnerAnimation(animation: Animation): string {
+        const lines = this.beginnerHeader(animation.frames);
+
+        lines.push('// Wait between frames by counting - raise the count to slow the animation down');
+        lines.push('void pause() {');
+        lines.push(`    for (volatile long i = 0; i < ${animation.delayMs * LOOPS_PER_MS}; i++) {`);
+        lines.push('    }');
+        lines.push('}');
+        lines.push('');
+
+        animation.frames.forEach((frame, k) => {
+            lines.push(`// ${frameLabel(animation, k)}`);
+            lines.push(`void drawFrame${k + 1}(int H, int W${animation.timed ? ', int t' : ''}) {`);
+            lines.push('    cout << "\\033[2J\\033[H";  // Clear the screen, cursor to the top left');
+            lines.push(...this.beginnerDrawing(frame));
+            lines.push('}');
+            lines.push('');
+        });
+
+        lines.push('int main() {');
+        lines.push(...this.declareSize({ ...animation, input: FIXED_SIZE }, 'cin', 'int', '    '));
+        lines.push('');
+        lines.push(...this.animationMain(animation, k => `drawFrame${k + 1}(H, W${animation.timed ? ', t' : ''});`, 'pause();'));
+        lines.push('');
+        lines.push('    return 0;');
+        lines.push('}');
+
+        return lines.join('\n');
+    }
+
+    /** #include <iostream> and the helpers the programs need */
+    private beginnerHeader(programs: Program[]): string[] {
+        const lines: string[] = [];
+
+        // ONLY iostream - nothing else
+        lines.push('#include <iostream>');
+        lines.push('using namespace std;');
+        lines.push('');
+
+        // Helpers written out by hand instead of pulling in <cstdlib>
+        if (programs.some(p => p.branches.some(b => b.condition.kind === 'expression' && /\babs\(/.test(b.condition.source)))) {
+            lines.push('int absolute(int x) {');
+            lines.push('    if (x < 0) return -x;');
+            lines.push('    return x;');
+            lines.push('}');
+            lines.push('');
+        }
+        return lines;
+    }
+
+    /** The two loops printing every cell */
+    private beginnerDrawing(program: Program): string[] {
+        if (program.rowLoops) return this.beginnerRowLoops(program.rowLoops);
+        const lines: string[] = [];
+
+        // Simple nested loops
+        lines.push('    for (int r = 0; r < H; r++) {');
+        lines.push('        for (int c = 0; c < W; c++) {');
+
+        // Generate conditions
+        lines.push(this.generateConditions(program));
+
+        lines.push('        }');
+        lines.push('        cout << endl;');
+        lines.push('    }');
+        return lines;
+    }
+
+    /** Per row, a loop printing the spaces and a loop printing the character */
+    private beginnerRowLoops({ char, runs }: RowLoops): string[] {
+        return runs.flatMap((run, i) => [
+            ...(i > 0 ? [''] : []),
+            `    for (int r = ${renderExpression(run.from, CPP)}; r < ${renderExpression(run.to, CPP)}; r++) {`,
+            ...(isZero(run.spaces) ? [] : [`        for (int s = 0; s < ${renderExpression(run.spaces, CPP)}; s++) cout << ' ';`]),
+            ...(isZero(run.count) ? [] : [`        for (int k = 0; k < ${renderExpression(run.count, CPP)}; k++) cout << ${quoteChar(char)};`]),
+            '        cout << endl;',
+            '    }',
+        ]);
+    }
+
+    /** The steps of an animation in main, inside while (true) when it loops */
+    private animationMain(animation: Animation, draw: (frame: number) => string, pause: string): string[] {
+        const steps = animationSteps(animation, draw, pause, {
+            open: `for (int t = 0; t < ${animation.sequence.length}; t++) {`,
+            close: '}',
+            pauseBeforeLast: `if (t < ${animation.sequence.length - 1}) ${pause}`,
+        });
+        if (!animation.loop) return indentLines(steps, '    ');
+        return ['    while (true) {', ...indentLines(steps, '        '), '    }'];
+    }
+
+    /** Generate simple if-else chain */
+    private generateConditions(program: Program): string {
+        if (program.branches.length === 0) {
+            return "            cout << ' ';";
+        }
+
+        const lines: string[] = [...declareDerivedWithIfs(program, '            ')];
+
+        program.branches.forEach((branch, i) => {
+            const condition = this.branchCondition(branch);
+            const charLiteral = branch.output.kind === 'computed'
+                ? `(char)(${branch.output.source})`
+                : quoteChar(branch.output.char);
+
+            if (i === 0) {
+                lines.push(`            if (${condition}) {`);
+            } else {
+                lines.push(`            } else if (${condition}) {`);
+            }
+            lines.push(`                cout << ${charLiteral};`);
+        });
+
+        // Default: space
+        lines.push('            } else {');
+        lines.push("                cout << ' ';");
+        lines.push('            }');
+
+        return lines.join('\n');
+    }
+
+    /** Convert a branch condition to BASIC C++ */
+    private branchCondition({ condition }: Branch): string {
+        // If it's a coordinate set, generate simple OR chain
+        if (condition.kind === 'cells') {
+            return this.generateCoordinateCondition(condition.cells);
+        }
+        if (hasWideProduct(condition.node)) {
+            return renderCondition(condition.node, CPP_BEGINNER, { indent: ' '.repeat(16), parenthesize: false });
+        }
+        return this.wrapCondition(condition.source).replace(/\babs\(/g, 'absolute(');
+    }
+
+    /** Put each top-level || operand of a long condition on its own line */
+    private wrapCondition(expression: string): string {
+        if (expression.length <= 100) return expression;
+
+        const operands = printOperands(parseExpression(expression), '||');
+        if (operands.length < 2) return expression;
+        return operands.join(' ||\n                ');
+    }
+
+    /** Generate simple (r==X && c==Y) || ... chain */
+    private generateCoordinateCondition(cells: GridCoord[]): string {
+        if (cells.length === 0) return 'false';
+
+        // If too many cells, group by row for readability
+        if (cells.length > 20) {
+            return this.generateGroupedCondition(cells);
+        }
+
+        // Simple OR chain
+        const conditions = cells.map(c => `(r==${c.row} && c==${c.col})`);
+
+        // Break into lines if many conditions
+        if (conditions.length <= 5) {
+            return conditions.join(' || ');
+        }
+
+        // Multi-line for readability
+        return conditions.join(' ||\n                ');
+    }
+
+    /** Group coordinates by row for cleaner code */
+    private generateGroupedCondition(cells: GridCoord[]): string {
+        // Group cells by row
+        const byRow = new Map<number, number[]>();
+        for (const cell of cells) {
+            if (!byRow.has(cell.row)) {
+                byRow.set(cell.row, []);
+            }
+            byRow.get(cell.row)!.push(cell.col);
+        }
+
+        const rowConditions: string[] = [];
+        for (const [row, cols] of byRow) {
+            if (cols.length === 1) {
+                rowConditions.push(`(r==${row} && c==${cols[0]})`);
+            } else {
+                // Multiple columns in same row
+                const colChecks = cols.map(c => `c==${c}`).join(' || ');
+                rowConditions.push(`(r==${row} && (${colChecks}))`);
+            }
+        }
+
+        return rowConditions.join(' ||\n                ');
+    }
+
+    /** Standard-library C++: a cellAt lambda with one early return per character */
+    private renderIdiomatic(program: Program): string {
+        const lines = [...this.idiomaticIncludes([program]), ''];
+
+        lines.push('int main() {');
+        const body = [...this.declareSize(program, 'std::cin', 'const int', '    '), '', ...this.idiomaticDrawing(program)];
+        lines.push(...this.repeatPerTestCase(program, 'std::cin', body));
+        lines.push('}');
+
+        return lines.join('\n');
+    }
+
+    /** One drawFrame function per frame, sleeping between them with std::this_thread::sleep_for */
+    private renderIdiomaticAnimation(animation: Animation): string {
+        const lines = [...this.idiomaticIncludes(animation.frames), '#include <chrono>', '#include <thread>', ''];
+
+        animation.frames.forEach((frame, k) => {
+            lines.push(`// ${frameLabel(animation, k)}`);
+            lines.push(`void drawFrame${k + 1}(int H, int W${animation.timed ? ', int t' : ''}) {`);
+            lines.push('    std::cout << "\\033[2J\\033[H";  // Clear the screen, cursor to the top left');
+            lines.push(...this.idiomaticDrawing(frame));
+            lines.push('    std::cout << std::flush;');
+            lines.push('}');
+            lines.push('');
+        });
+
+        lines.push('int main() {');
+        lines.push(...this.declareSize({ ...animation, input: FIXED_SIZE }, 'std::cin', 'const int', '    '));
+        lines.push(`    const auto delay = std::chrono::milliseconds(${animation.delayMs});`);
+        lines.push('');
+        lines.push(...this.animationMain(animation, k => `drawFrame${k + 1}(H, W${animation.timed ? ', t' : ''});`, 'std::this_thread::sleep_for(delay);'));
+        lines.push('}');
+
+        return lines.join('\n');
+    }
+
+    /** The headers the programs use */
+    private idiomaticIncludes(programs: Program[]): string[] {
+        const calls = new Set(programs.flatMap(p => [...this.calledFunctions(p)]));
+        const includes = ['#include <iostream>', '#include <string>'];
+        if (programs.some(p => p.derived.length > 0) || calls.has('min') || calls.has('max')) includes.push('#include <algorithm>');
+        if (calls.has('abs')) includes.push('#include <cstdlib>');
+        if (programs.some(p => p.branches.some(b => b.condition.kind === 'cells'))) includes.push('#include <set>', '#include <utility>');
+        return includes;
+    }
+
+    /** The fixed-cell sets, the cellAt lambda and the loop printing each row */
+    private idiomaticDrawing(program: Program): string[] {
+        if (program.rowLoops) return this.idiomaticRowLoops(program.rowLoops);
+        const lines: string[] = [];
+        const conditions = program.branches.map((branch, i) => {
+            if (branch.condition.kind === 'expression') {
+                return renderCondition(branch.condition.node, CPP, { indent: ' '.repeat(12), parenthesize: false });
+            }
+            const name = this.cellSetName(branch, i);
+            lines.push(...this.cellSet(name, branch.condition.cells), '');
+            return `${name}.count({r, c})`;
+        });
+
+        lines.push('    // The character at each cell');
+        lines.push('    auto cellAt = [&](int r, int c) -> char {');
+        for (const { name, pick, terms } of program.derived) {
+            const args = terms.map(t => renderExpression(parseExpression(t), CPP));
+            const value = args.length > 2 ? `std::${pick}({${args.join(', ')}})` : `std::${pick}(${args.join(', ')})`;
+            lines.push(`        const int ${name} = ${value};`);
+        }
+        let covered = false;
+        for (const [i, branch] of program.branches.entries()) {
+            const value = branch.output.kind === 'computed'
+                ? `static_cast<char>(${renderExpression(branch.output.node, CPP)})`
+                : quoteChar(branch.output.char);
+            if (this.isAlwaysTrue(branch)) {
+                lines.push(`        return ${value};`);
+                covered = true;
+                break;
+            }
+            lines.push(`        if (${conditions[i]}) return ${value};`);
+        }
+        if (!covered) lines.push("        return ' ';");
+        lines.push('    };');
+        lines.push('');
+        lines.push('    for (int r = 0; r < H; r++) {');
+        lines.push('        std::string row;');
+        lines.push('        for (int c = 0; c < W; c++) row += cellAt(r, c);');
+        lines.push("        std::cout << row << '\\n';");
+        lines.push('    }');
+        return lines;
+    }
+
+    /** Per row, the run of spaces and the run of the character as two std::strings */
+    private idiomaticRowLoops({ char, runs }: RowLoops): string[] {
+        return runs.flatMap((run, i) => {
+            const parts = [run.spaces, run.count].flatMap((count, k) =>
+                (isZero(count) ? [] : [`std::string(${renderExpression(count, CPP)}, ${k === 0 ? "' '" : quoteChar(char)})`]));
+            return [
+                ...(i > 0 ? [''] : []),
+                `    for (int r = ${renderExpression(run.from, CPP)}; r < ${renderExpression(run.to, CPP)}; r++) {`,
+                `        std::cout << ${[...parts, "'\\n'"].join(' << ')};`,
+                '    }',
+            ];
+        });
+    }
+
+    /** const std::set<std::pair<int, int>> occupied35 = { {r, c}, ... }; */
+    private cellSet(name: string, cells: GridCoord[]): string[] {
+        const pairs = cells.map(cell => `{${cell.row}, ${cell.col}}`);
+        if (pairs.length <= CELLS_PER_LINE) {
+            return [`    const std::set<std::pair<int, int>> ${name} = {${pairs.join(', ')}};`];
+        }
+
+        const lines = [`    const std::set<std::pair<int, int>> ${name} = {`];
+        for (let i = 0; i < pairs.length; i += CELLS_PER_LINE) {
+            const last = i + CELLS_PER_LINE >= pairs.length;
+            lines.push(`        ${pairs.slice(i, i + CELLS_PER_LINE).join(', ')}${last ? '' : ','}`);
+        }
+        lines.push('    };');
+        return lines;
+    }
+
+    /** Shortest C++: a single nested ternary handed to putchar */
+    private renderCompact(program: Program): string {
+        let main = `${this.compactSize(program)}${this.compactDrawing(program)}`;
+        if (program.input.testCases) main = `int T;scanf("%d",&T);while(T--){${main}}`;
+        return [...this.compactIncludes([program]), `int main(){${main}}`].join('\n');
+    }
+
+    /** A function per frame and a counting loop p() to pause */
+    private renderCompactAnimation(animation: Animation): string {
+        const lines = this.compactIncludes(animation.frames);
+        lines.push(`void p(){for(volatile long i=0;i<${animation.delayMs * LOOPS_PER_MS};i++);}`);
+        const t = animation.timed ? ',int t' : '';
+        animation.frames.forEach((frame, k) => lines.push(`void f${k + 1}(int H,int W${t}){printf("\\33[2J\\33[H");${this.compactDrawing(frame)}}`));
+
+        const steps = animationSteps(animation, k => `f${k + 1}(H,W${t ? ',t' : ''});`, 'p();', {
+            open: `for(int t=0;t<${animation.sequence.length};t++){`,
+            close: '}',
+            pauseBeforeLast: `if(t<${animation.sequence.length - 1})p();`,
+        }).map(statement => statement.trim()).join('');
+        lines.push(`int main(){${this.compactSize({ ...animation, input: FIXED_SIZE })}${animation.loop ? `for(;;){${steps}}` : steps}}`);
+        return lines.join('\n');
+    }
+
+    private compactIncludes(programs: Program[]): string[] {
+        const calls = new Set(programs.flatMap(p => [...this.calledFunctions(p)]));
+        const includes = ['#include<cstdio>'];
+        if (calls.has('abs')) includes.push('#include<cstdlib>');
+        if (calls.has('min') || calls.has('max')) includes.push('#include<algorithm>');
+        return includes;
+    }
+
+    /** Both loops, printing each cell with putchar */
+    private compactDrawing(program: Program): string {
+        if (program.rowLoops) return this.compactRowLoops(program.rowLoops);
+        const derived = program.derived.map(({ name, pick, terms }) => {
+            const [first, ...rest] = terms.map(t => renderExpression(parseExpression(t), CPP_COMPACT));
+            const compare = pick === 'min' ? '<' : '>';
+            return `int ${name}=${first};` + rest.map(term => `if(${term}${compare}${name})${name}=${term};`).join('');
+        });
+
+        let value = '32';
+        for (const branch of [...program.branches].reverse()) {
+            const output = branch.output.kind === 'computed'
+                ? renderExpression(branch.output.node, CPP_COMPACT)
+                : this.shortChar(branch.output.char);
+            value = this.isAlwaysTrue(branch) ? output : `${this.compactCondition(branch)}?${output}:${value}`;
+        }
+
+        const cell = derived.length > 0 ? `{${derived.join('')}putchar(${value});}` : `putchar(${value});`;
+        return `for(int r=0;r<H;r++,puts(""))for(int c=0;c<W;c++)${cell}`;
+    }
+
+    /** A putchar loop of spaces and one of the character per row */
+    private compactRowLoops({ char, runs }: RowLoops): string {
+        return runs.map(run => {
+            const loops = [[run.spaces, '32', 's'], [run.count, this.shortChar(char), 'k']] as const;
+            const body = loops.filter(([count]) => !isZero(count))
+                .map(([count, value, name]) => `for(int ${name}=0;${name}<${renderExpression(count, CPP_COMPACT)};${name}++)putchar(${value});`);
+            const head = `for(int r=${renderExpression(run.from, CPP_COMPACT)};r<${renderExpression(run.to, CPP_COMPACT)};r++,puts(""))`;
+            return body.length === 1 ? `${head}${body[0]}` : `${head}{${body.join('')}}`;
+        }).join('');
+    }
+
+    /** H and W fixed, or read with scanf */
+    private compactSize(program: Pick<Program, 'H' | 'W' | 'input' | 'rowLoops'>): string {
+        const names = inputNames(program.input);
+        if (names.length === 0) return program.rowLoops ? `int H=${program.H};` : `int H=${program.H},W=${program.W};`;
+        if (names[0] === 'N') return program.rowLoops ? 'int H;scanf("%d",&H);' : 'int H;scanf("%d",&H);int W=H;';
+        return `int H,W;scanf("%d%d",${names.map(name => `&${name}`).join(',')});`;
+    }
+
+    /** H and W as fixed values to change by hand (row loops only use H), or read from standard input */
+    private declareSize(program: Pick<Program, 'H' | 'W' | 'input' | 'rowLoops'>, cin: string, fixedType: string, indent: string): string[] {
+        const names = inputNames(program.input);
+        if (names.length === 0) {
+            return [
+                `${indent}${fixedType} H = ${program.H};  // Height - change to scale`,
+                ...(program.rowLoops ? [] : [`${indent}${fixedType} W = ${program.W};  // Width - change to scale`]),
+            ];
+        }
+
+        const lines = [`${indent}int ${names.join(', ')};`, `${indent}${cin} >> ${names.join(' >> ')};`];
+        if (names[0] === 'N') lines.push(`${indent}${fixedType} H = N${program.rowLoops ? '' : ', W = N'};`);
+        return lines;
+    }
+
+    /** The body of main once per test case when the input starts with their count T */
+    private repeatPerTestCase(program: Program, cin: string, body: string[]): string[] {
+        if (!program.input.testCases) return body;
+        return ['    int T;', `    ${cin} >> T;`, '', '    while (T--) {', ...indentLines(body, '    '), '    }'];
+    }
+
+    private compactCondition({ condition }: Branch): string {
+        if (condition.kind === 'cells' && condition.cells.length === 0) return '0';
+        const node = condition.kind === 'cells' ? cellsCondition(condition.cells) : condition.node;
+        return renderExpression(node, CPP_COMPACT);
+    }
+
+    /** A character as its code when that is shorter than the quoted literal */
+    private shortChar(char: string): string {
+        const literal = quoteChar(char);
+        const code = String(char.charCodeAt(0));
+        return code.length < literal.length ? code : literal;
+    }
+
+    /** A branch whose condition is a non-zero constant, which ends the chain */
+    private isAlwaysTrue({ condition }: Branch): boolean {
+        return condition.kind === 'expression' && condition.node.kind === 'num' && !condition.node.isChar && condition.node.value !== 0;
+    }
+
+    /** Name of the std::set holding a branch's fixed cells */
+    private cellSetName(branch: Branch, i: number): string {
+        return branch.output.kind === 'char' ? `occupied${branch.output.char.charCodeAt(0)}` : `occupied${i}`;
+    }
+
+    /** Functions called anywhere in the program's conditions or computed characters */
+    private calledFunctions(program: Program): Set<string> {
+        const names = new Set<string>();
+        const visit = (node: ExprNode): void => {
+            switch (node.kind) {
+                case 'call': names.add(node.name); node.args.forEach(visit); break;
+                case 'unary': visit(node.arg); break;
+                case 'binary': visit(node.left); visit(node.right); break;
+            }
+        };
+        for (const { condition, output } of program.branches) {
+            if (condition.kind === 'expression') visit(condition.node);
+            if (output.kind === 'computed') visit(output.node);
+        }
+        return names;
+    }
+}
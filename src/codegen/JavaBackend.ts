@@ -0,0 +1,48 @@
+/**
+ * JavaBackend - Emits a complete `public class Main` printing with System.out.print
+ */
+
+import { ClassBackend } from './ClassBackend';
+
+export class JavaBackend extends ClassBackend {
+    readonly language = 'java';
+
+    protected readonly boolType = 'boolean';
+    protected readonly braceOnNewLine = false;
+
+    protected fileHeader(readsInput: boolean): string[] {
+        return readsInput ? ['import java.util.Scanner;', ''] : [];
+    }
+
+    protected classLine(): string {
+        return 'public class Main';
+    }
+
+    protected mainLine(): string {
+        return 'public static void main(String[] args)';
+    }
+
+    protected printChar(value: string): string {
+        return `System.out.print(${value});`;
+    }
+
+    protected printNewline(): string {
+        return 'System.out.println();';
+    }
+
+    protected mathFunction(name: string): string {
+        return `Math.${name}`;
+    }
+
+    protected inputReader(): string[] {
+        return ['Scanner in = new Scanner(System.in);'];
+    }
+
+    protected readInt(): string {
+        return 'in.nextInt()';
+    }
+
+    protected clock(): string {
+        return 'System.currentTimeMillis()';
+    }
+}
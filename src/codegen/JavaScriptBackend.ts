@@ -0,0 +1,147 @@
+/**
+ * JavaScriptBackend - Emits a Node.js script
+ *
+ * Same shape as the C++ program, printing with process.stdout.write.
+ * Division goes through Math.trunc so it truncates like C; JavaScript's
+ * % already keeps the sign of the left side. Row loops print each row
+ * with a loop of spaces and one of the character.
+ */
+
+import {
+    Animation, Backend, Branch, C_OPERATORS, Dialect, Program, RowLoops,
+    animationSteps, frameLabel, indentLines, inputNames, isZero, quoteChar, renderCondition, renderExpression,
+} from './Backend';
+import { ExprNode, cellsCondition, parseExpression } from '../core/Expression';
+
+const JAVASCRIPT: Dialect = {
+    ...C_OPERATORS,
+    operators: { ...C_OPERATORS.operators, '==': '===', '!=': '!==' },
+    not: '!',
+    notPrecedence: 10,
+    chainsComparisons: false,
+    call: (name, args) => `Math.${name}(${args.join(', ')})`,
+    charCode: (literal) => `${literal}.charCodeAt(0)`,
+    literals: { true: 'true', false: 'false' },
+    truncating: (op, { left, right }) => (op === '/' ? `Math.trunc(${left} / ${right})` : null),
+};
+
+export class JavaScriptBackend implements Backend {
+    readonly language = 'javascript';
+
+    render(program: Program): string {
+        const lines: string[] = [];
+        if (program.input.values !== 'none' || program.input.testCases) {
+            lines.push("const input = require('fs').readFileSync(0, 'utf8').split(/\\s+/).filter(Boolean).map(Number);");
+            lines.push('let next = 0;  // Index of the next value to read');
+            lines.push('');
+        }
+
+        const body = [...this.declareSize(program), '', ...this.drawing(program)];
+        if (program.input.testCases) {
+            lines.push('const T = input[next++];', '', 'for (let t = 0; t < T; t++) {', ...indentLines(body, '    '), '}');
+        } else {
+            lines.push(...body);
+        }
+        return lines.join('\n');
+    }
+
+    /** One drawFrame function per frame, with a busy-wait pause between them */
+    renderAnimation(animation: Animation): string {
+        const lines: string[] = [];
+        lines.push(`const H = ${animation.H};  // Height - change to scale`);
+        lines.push(`const W = ${animation.W};  // Width - change to scale`);
+        lines.push('');
+        lines.push('// Wait by watching the clock, so the script stays a plain loop');
+        lines.push('function pause(ms) {');
+        lines.push('    const end = Date.now() + ms;');
+        lines.push('    while (Date.now() < end) {');
+        lines.push('    }');
+        lines.push('}');
+
+        animation.frames.forEach((frame, k) => {
+            lines.push('');
+            lines.push(`// ${frameLabel(animation, k)}`);
+            lines.push(`function drawFrame${k + 1}(${animation.timed ? 't' : ''}) {`);
+            lines.push("    process.stdout.write('\\x1b[2J\\x1b[H');  // Clear the screen, cursor to the top left");
+            lines.push(...indentLines(this.drawing(frame), '    '));
+            lines.push('}');
+        });
+        lines.push('');
+
+        const steps = animationSteps(
+            animation, k => `drawFrame${k + 1}(${animation.timed ? 't' : ''});`, `pause(${animation.delayMs});`, {
+                open: `for (let t = 0; t < ${animation.sequence.length}; t++) {`,
+                close: '}',
+                pauseBeforeLast: `if (t < ${animation.sequence.length - 1}) pause(${animation.delayMs});`,
+            }
+        );
+        lines.push(...(animation.loop ? ['while (true) {', ...indentLines(steps, '    '), '}'] : steps));
+        return lines.join('\n');
+    }
+
+    /** The two loops printing every cell */
+    private drawing(program: Program): string[] {
+        if (program.rowLoops) return this.rowLoops(program.rowLoops);
+        const lines: string[] = [];
+        lines.push('for (let r = 0; r < H; r++) {');
+        lines.push('    for (let c = 0; c < W; c++) {');
+
+        for (const { name, pick, terms } of program.derived) {
+            const args = terms.map(t => renderExpression(parseExpression(t), JAVASCRIPT));
+            lines.push(`        const ${name} = Math.${pick}(${args.join(', ')});`);
+        }
+
+        program.branches.forEach((branch, i) => {
+            const output = branch.output.kind === 'computed'
+                ? `String.fromCharCode(${renderExpression(branch.output.node, JAVASCRIPT)})`
+                : quoteChar(branch.output.char);
+
+            lines.push(`        ${i === 0 ? 'if' : '} else if'} (${this.branchCondition(branch)}) {`);
+            lines.push(`            process.stdout.write(${output});`);
+        });
+        if (program.branches.length === 0) {
+            lines.push("        process.stdout.write(' ');");
+        } else {
+            lines.push('        } else {');
+            lines.push("            process.stdout.write(' ');");
+            lines.push('        }');
+        }
+
+        lines.push('    }');
+        lines.push("    process.stdout.write('\\n');");
+        lines.push('}');
+        return lines;
+    }
+
+    /** Per row, a loop printing the spaces and a loop printing the character */
+    private rowLoops({ char, runs }: RowLoops): string[] {
+        const render = (node: ExprNode) => renderExpression(node, JAVASCRIPT);
+        return runs.flatMap((run, i) => [
+            ...(i > 0 ? [''] : []),
+            `for (let r = ${render(run.from)}; r < ${render(run.to)}; r++) {`,
+            ...(isZero(run.spaces) ? [] : [`    for (let s = 0; s < ${render(run.spaces)}; s++) process.stdout.write(' ');`]),
+            ...(isZero(run.count) ? [] : [`    for (let k = 0; k < ${render(run.count)}; k++) process.stdout.write(${quoteChar(char)});`]),
+            "    process.stdout.write('\\n');",
+            '}',
+        ]);
+    }
+
+    /** H and W as values to change by hand (row loops only use H), or the next values of the input */
+    private declareSize(program: Program): string[] {
+        const names = inputNames(program.input);
+        if (names.length === 0) {
+            const height = `const H = ${program.H};  // Height - change to scale`;
+            return program.rowLoops ? [height] : [height, `const W = ${program.W};  // Width - change to scale`];
+        }
+        const lines = names.map(name => `const ${name} = input[next++];`);
+        if (names[0] === 'N') lines.push(program.rowLoops ? 'const H = N;' : 'const H = N, W = N;');
+        return lines;
+    }
+
+    /** A branch condition, one || operand per line when long */
+    private branchCondition({ condition }: Branch): string {
+        if (condition.kind === 'cells' && condition.cells.length === 0) return 'false';
+        const node = condition.kind === 'cells' ? cellsCondition(condition.cells) : condition.node;
+        return renderCondition(node, JAVASCRIPT, { indent: '                ', parenthesize: false });
+    }
+}
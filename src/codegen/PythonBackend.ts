@@ -0,0 +1,153 @@
+/**
+ * PythonBackend - Emits a plain Python 3 script
+ *
+ * Same shape as the C++ program: two for loops over range(), one
+ * if / elif chain, print(..., end='') per cell. C's truncating / and %
+ * stay // and % where the left side is never negative; elsewhere they
+ * become int(a / b) and a small c_mod helper, so results match C exactly.
+ * Row loops print each row with a loop of spaces and one of the character.
+ */
+
+import {
+    Animation, Backend, Branch, Dialect, Program, RowLoops,
+    animationSteps, frameLabel, indentLines, inputNames, isZero, neverNegative, quoteChar, renderCondition, renderExpression,
+} from './Backend';
+import { ExprNode, cellsCondition, parseExpression } from '../core/Expression';
+
+const PYTHON: Dialect = {
+    operators: {
+        '||': 'or', '&&': 'and', '|': '|', '^': '^', '&': '&',
+        '==': '==', '!=': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+        '+': '+', '-': '-', '*': '*', '/': '//', '%': '%',
+    },
+    // Bitwise operators bind tighter than comparisons in Python
+    precedence: {
+        '||': 1, '&&': 2,
+        '==': 3, '!=': 3, '<': 3, '<=': 3, '>': 3, '>=': 3,
+        '|': 4, '^': 5, '&': 6,
+        '+': 8, '-': 8, '*': 9, '/': 9, '%': 9,
+    },
+    not: 'not ',
+    notPrecedence: 2.5,
+    chainsComparisons: true,
+    call: (name, args) => `${name}(${args.join(', ')})`,
+    charCode: (literal) => `ord(${literal})`,
+    literals: { true: 'True', false: 'False' },
+    truncating: (op, { left, right, plainLeft, plainRight, nonNegative }) => {
+        if (nonNegative) return null;
+        return op === '/' ? `int(${left} / ${right})` : `c_mod(${plainLeft}, ${plainRight})`;
+    },
+};
+
+export class PythonBackend implements Backend {
+    readonly language = 'python';
+
+    render(program: Program): string {
+        const drawing = this.drawing(program);
+        const lines = this.helpers(drawing);
+
+        const body = [...this.declareSize(program), '', ...drawing];
+        if (program.input.testCases) {
+            lines.push('T = int(input())', '', 'for _ in range(T):', ...indentLines(body, '    '));
+        } else {
+            lines.push(...body);
+        }
+        return lines.join('\n');
+    }
+
+    /** One draw_frame function per frame, with time.sleep between them */
+    renderAnimation(animation: Animation): string {
+        const drawings = animation.frames.map(frame => this.drawing(frame));
+        const lines = ['import time', '', ...this.helpers(drawings.flat())];
+
+        lines.push(`H = ${animation.H}  # Height - change to scale`);
+        lines.push(`W = ${animation.W}  # Width - change to scale`);
+        drawings.forEach((drawing, k) => {
+            lines.push('', '');
+            lines.push(`# ${frameLabel(animation, k)}`);
+            lines.push(`def draw_frame_${k + 1}(${animation.timed ? 't' : ''}):`);
+            lines.push("    print('\\033[2J\\033[H', end='')  # Clear the screen, cursor to the top left");
+            lines.push(...indentLines(drawing, '    '));
+        });
+        lines.push('', '');
+
+        const steps = animationSteps(
+            animation, k => `draw_frame_${k + 1}(${animation.timed ? 't' : ''})`, `time.sleep(${animation.delayMs / 1000})`, {
+                open: `for t in range(${animation.sequence.length}):`,
+                pauseBeforeLast: `if t < ${animation.sequence.length - 1}: time.sleep(${animation.delayMs / 1000})`,
+            }
+        );
+        lines.push(...(animation.loop ? ['while True:', ...indentLines(steps, '    ')] : steps));
+        return lines.join('\n');
+    }
+
+    /** The two loops printing every cell */
+    private drawing(program: Program): string[] {
+        const nonNegative = neverNegative(program);
+        if (program.rowLoops) return this.rowLoops(program.rowLoops, nonNegative);
+        const lines = ['for r in range(H):', '    for c in range(W):'];
+
+        for (const { name, pick, terms } of program.derived) {
+            const args = terms.map(t => renderExpression(parseExpression(t), PYTHON));
+            lines.push(`        ${name} = ${pick}(${args.join(', ')})`);
+        }
+
+        program.branches.forEach((branch, i) => {
+            const output = branch.output.kind === 'computed'
+                ? `chr(${renderExpression(branch.output.node, PYTHON, nonNegative)})`
+                : quoteChar(branch.output.char);
+            lines.push(`        ${i === 0 ? 'if' : 'elif'} ${this.branchCondition(branch, nonNegative)}:`);
+            lines.push(`            print(${output}, end='')`);
+        });
+        if (program.branches.length === 0) {
+            lines.push("        print(' ', end='')");
+        } else {
+            lines.push('        else:');
+            lines.push("            print(' ', end='')");
+        }
+        lines.push('    print()');
+        return lines;
+    }
+
+    /** Per row, a loop printing the spaces and a loop printing the character */
+    private rowLoops({ char, runs }: RowLoops, nonNegative: (node: ExprNode) => boolean): string[] {
+        const render = (node: ExprNode) => renderExpression(node, PYTHON, nonNegative);
+        return runs.flatMap((run, i) => [
+            ...(i > 0 ? [''] : []),
+            `for r in range(${isZero(run.from) ? '' : `${render(run.from)}, `}${render(run.to)}):`,
+            ...(isZero(run.spaces) ? [] : [`    for s in range(${render(run.spaces)}):`, "        print(' ', end='')"]),
+            ...(isZero(run.count) ? [] : [`    for k in range(${render(run.count)}):`, `        print(${quoteChar(char)}, end='')`]),
+            '    print()',
+        ]);
+    }
+
+    /** The c_mod helper, when the drawing code calls it */
+    private helpers(drawing: string[]): string[] {
+        if (!drawing.some(line => /\bc_mod\(/.test(line))) return [];
+        return [
+            'def c_mod(a, b):',
+            '    # Remainder with the sign of a, as in C',
+            '    return a - b * int(a / b)',
+            '',
+            '',
+        ];
+    }
+
+    /** H and W as values to change by hand (row loops only use H), or read from one line of input */
+    private declareSize(program: Program): string[] {
+        const names = inputNames(program.input);
+        if (names.length === 0) {
+            const height = `H = ${program.H}  # Height - change to scale`;
+            return program.rowLoops ? [height] : [height, `W = ${program.W}  # Width - change to scale`];
+        }
+        if (names[0] === 'N') return ['N = int(input())', program.rowLoops ? 'H = N' : 'H = W = N'];
+        return [`${names.join(', ')} = map(int, input().split())`];
+    }
+
+    /** A branch condition; long ones are wrapped in parentheses, one `or` operand per line */
+    private branchCondition({ condition }: Branch, nonNegative: (node: ExprNode) => boolean): string {
+        if (condition.kind === 'cells' && condition.cells.length === 0) return 'False';
+        const node = condition.kind === 'cells' ? cellsCondition(condition.cells) : condition.node;
+        return renderCondition(node, PYTHON, { indent: '                ', parenthesize: true, nonNegative });
+    }
+}
@@ -0,0 +1,444 @@
+/**
+ * Expression - Parser, evaluator and printer for predicate conditions
+ *
+ * Predicate conditions are stored as C-style expression strings over
+ * r, c, H and W (plus a few derived cell variables). This module turns them into a small AST so they can be
+ * checked cell-for-cell against the grid and combined safely.
+ *
+ * Semantics follow C integer arithmetic: '/' truncates toward zero and
+ * comparisons / logical operators yield 0 or 1. Character literals like
+ * 'A' are numbers (their char code) that print back as literals.
+ */
+
+import { GridCoord } from './types';
+
+export type BinaryOp =
+    | '||' | '&&'
+    | '|' | '^' | '&'
+    | '==' | '!='
+    | '<' | '<=' | '>' | '>='
+    | '+' | '-'
+    | '*' | '/' | '%';
+
+export type UnaryOp = '!' | '-';
+
+export type ExprNode =
+    | { kind: 'num'; value: number; isChar?: boolean }
+    | { kind: 'var'; name: string }
+    | { kind: 'unary'; op: UnaryOp; arg: ExprNode }
+    | { kind: 'binary'; op: BinaryOp; left: ExprNode; right: ExprNode }
+    | { kind: 'call'; name: string; args: ExprNode[] };
+
+/** Variable bindings used during evaluation */
+export type Env = Record<string, number>;
+
+/** Binding strength of each binary operator (higher binds tighter) */
+const PRECEDENCE: Record<BinaryOp, number> = {
+    '||': 1,
+    '&&': 2,
+    '|': 3,
+    '^': 4,
+    '&': 5,
+    '==': 6, '!=': 6,
+    '<': 7, '<=': 7, '>': 7, '>=': 7,
+    '+': 8, '-': 8,
+    '*': 9, '/': 9, '%': 9,
+};
+
+const UNARY_PRECEDENCE = 10;
+
+/** Longest operators first so '<=' wins over '<' */
+const OPERATORS = [
+    '||', '&&', '==', '!=', '<=', '>=',
+    '|', '^', '&', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ',',
+];
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    abs: (x) => Math.abs(x),
+    min: (a, b) => Math.min(a, b),
+    max: (a, b) => Math.max(a, b),
+};
+
+const DIMENSIONS = new Set(['H', 'W']);
+
+/**
+ * Per-cell variables derived from r and c. Generated code declares them
+ * with plain ifs; the evaluator computes them the same way.
+ */
+export const DERIVED_VARIABLES: Record<string, { pick: 'min' | 'max'; terms: string[] }> = {
+    fr: { pick: 'min', terms: ['r', 'H-1-r'] },   // row folded onto the top half
+    fc: { pick: 'min', terms: ['c', 'W-1-c'] },   // column folded onto the left half
+    tr: { pick: 'min', terms: ['r', 'c'] },       // transposed onto r <= c
+    tc: { pick: 'max', terms: ['r', 'c'] },
+    ring: { pick: 'min', terms: ['r', 'c', 'H-1-r', 'W-1-c'] },  // distance to the nearest edge
+};
+
+// --- PARSING ---
+
+type Token = { type: 'num' | 'char' | 'ident' | 'op'; text: string };
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (/[0-9]/.test(ch)) {
+            let j = i;
+            while (j < source.length && /[0-9]/.test(source[j])) j++;
+            tokens.push({ type: 'num', text: source.slice(i, j) });
+            i = j;
+            continue;
+        }
+
+        if (ch === "'") {
+            const escaped = source[i + 1] === '\\';
+            const end = i + (escaped ? 3 : 2);
+            if (source[end] !== "'") throw new Error(`Bad character literal in expression: ${source}`);
+            tokens.push({ type: 'char', text: source[end - 1] });
+            i = end + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            let j = i;
+            while (j < source.length && /[A-Za-z0-9_]/.test(source[j])) j++;
+            tokens.push({ type: 'ident', text: source.slice(i, j) });
+            i = j;
+            continue;
+        }
+
+        const op = OPERATORS.find(o => source.startsWith(o, i));
+        if (!op) throw new Error(`Unexpected character '${ch}' in expression: ${source}`);
+        tokens.push({ type: 'op', text: op });
+        i += op.length;
+    }
+
+    return tokens;
+}
+
+/** Parse a C-style condition into an AST */
+export function parseExpression(source: string): ExprNode {
+    const tokens = tokenize(source);
+    let pos = 0;
+
+    const peek = (): Token | undefined => tokens[pos];
+    const expect = (text: string): void => {
+        const tok = tokens[pos++];
+        if (!tok || tok.text !== text) {
+            throw new Error(`Expected '${text}' in expression: ${source}`);
+        }
+    };
+
+    const parsePrimary = (): ExprNode => {
+        const tok = tokens[pos++];
+        if (!tok) throw new Error(`Unexpected end of expression: ${source}`);
+
+        if (tok.type === 'num') return { kind: 'num', value: Number(tok.text) };
+        if (tok.type === 'char') return { kind: 'num', value: tok.text.charCodeAt(0), isChar: true };
+
+        if (tok.type === 'ident') {
+            if (tok.text === 'true') return { kind: 'num', value: 1 };
+            if (tok.text === 'false') return { kind: 'num', value: 0 };
+
+            if (peek()?.text === '(') {
+                pos++;
+                const args: ExprNode[] = [];
+                if (peek()?.text !== ')') {
+                    args.push(parseBinary(1));
+                    while (peek()?.text === ',') { pos++; args.push(parseBinary(1)); }
+                }
+                expect(')');
+                return { kind: 'call', name: tok.text, args };
+            }
+            return { kind: 'var', name: tok.text };
+        }
+
+        if (tok.text === '(') {
+            const inner = parseBinary(1);
+            expect(')');
+            return inner;
+        }
+
+        if (tok.text === '!' || tok.text === '-') {
+            return { kind: 'unary', op: tok.text, arg: parsePrimary() };
+        }
+
+        throw new Error(`Unexpected '${tok.text}' in expression: ${source}`);
+    };
+
+    // Precedence climbing; every binary operator is left-associative
+    const parseBinary = (minPrec: number): ExprNode => {
+        let left = parsePrimary();
+        while (true) {
+            const tok = peek();
+            if (!tok || tok.type !== 'op' || !(tok.text in PRECEDENCE)) break;
+            const op = tok.text as BinaryOp;
+            const prec = PRECEDENCE[op];
+            if (prec < minPrec) break;
+            pos++;
+            const right = parseBinary(prec + 1);
+            left = { kind: 'binary', op, left, right };
+        }
+        return left;
+    };
+
+    const node = parseBinary(1);
+    if (pos !== tokens.length) {
+        throw new Error(`Unexpected '${tokens[pos].text}' in expression: ${source}`);
+    }
+    return node;
+}
+
+// --- EVALUATION ---
+
+/** Compile an AST into a fast evaluator closure */
+export function compileExpression(node: ExprNode): (env: Env) => number {
+    switch (node.kind) {
+        case 'num': {
+            const value = node.value;
+            return () => value;
+        }
+        case 'var': {
+            const name = node.name;
+            return (env) => {
+                const value = env[name];
+                if (value === undefined) throw new Error(`Unknown variable '${name}'`);
+                return value;
+            };
+        }
+        case 'unary': {
+            const arg = compileExpression(node.arg);
+            return node.op === '!'
+                ? (env) => (arg(env) ? 0 : 1)
+                : (env) => -arg(env);
+        }
+        case 'call': {
+            const fn = FUNCTIONS[node.name];
+            if (!fn) throw new Error(`Unknown function '${node.name}'`);
+            const args = node.args.map(compileExpression);
+            return (env) => fn(...args.map(a => a(env)));
+        }
+        case 'binary': {
+            const l = compileExpression(node.left);
+            const r = compileExpression(node.right);
+            switch (node.op) {
+                case '||': return (env) => (l(env) || r(env) ? 1 : 0);
+                case '&&': return (env) => (l(env) && r(env) ? 1 : 0);
+                case '|': return (env) => l(env) | r(env);
+                case '^': return (env) => l(env) ^ r(env);
+                case '&': return (env) => l(env) & r(env);
+                case '==': return (env) => (l(env) === r(env) ? 1 : 0);
+                case '!=': return (env) => (l(env) !== r(env) ? 1 : 0);
+                case '<': return (env) => (l(env) < r(env) ? 1 : 0);
+                case '<=': return (env) => (l(env) <= r(env) ? 1 : 0);
+                case '>': return (env) => (l(env) > r(env) ? 1 : 0);
+                case '>=': return (env) => (l(env) >= r(env) ? 1 : 0);
+                case '+': return (env) => l(env) + r(env);
+                case '-': return (env) => l(env) - r(env);
+                case '*': return (env) => l(env) * r(env);
+                case '/': return (env) => {
+                    const d = r(env);
+                    if (d === 0) throw new Error('Division by zero');
+                    return Math.trunc(l(env) / d);
+                };
+                case '%': return (env) => {
+                    const d = r(env);
+                    if (d === 0) throw new Error('Division by zero');
+                    return l(env) % d;
+                };
+            }
+        }
+    }
+}
+
+/** Compile a condition over one cell, filling in any derived variables it uses */
+export function compileCondition(source: string): (r: number, c: number, H: number, W: number) => boolean {
+    const value = compileCellExpression(source);
+    return (r, c, H, W) => Boolean(value(r, c, H, W));
+}
+
+/** Compile an integer expression over one cell, such as a computed character code */
+export function compileCellExpression(source: string): (r: number, c: number, H: number, W: number) => number {
+    const node = parseExpression(source);
+    const test = compileExpression(node);
+
+    const used = [...collectVariables(node)].filter(name => name in DERIVED_VARIABLES);
+    const derived = used.map(name => {
+        const { pick, terms } = DERIVED_VARIABLES[name];
+        const compiled = terms.map(t => compileExpression(parseExpression(t)));
+        const fn = pick === 'min' ? Math.min : Math.max;
+        return { name, value: (env: Env) => fn(...compiled.map(t => t(env))) };
+    });
+
+    const env: Env = { r: 0, c: 0, H: 0, W: 0 };
+    return (r, c, H, W) => {
+        env.r = r; env.c = c; env.H = H; env.W = W;
+        for (const d of derived) env[d.name] = d.value(env);
+        return test(env);
+    };
+}
+
+/** Evaluate an AST once */
+export function evaluate(node: ExprNode, env: Env): number {
+    return compileExpression(node)(env);
+}
+
+// --- PRINTING ---
+
+function precedenceOf(node: ExprNode): number {
+    if (node.kind === 'binary') return PRECEDENCE[node.op];
+    if (node.kind === 'unary') return UNARY_PRECEDENCE;
+    return UNARY_PRECEDENCE + 1;
+}
+
+const ASSOCIATIVE = new Set<BinaryOp>(['||', '&&', '|', '^', '&', '+', '*']);
+
+const isBitwise = (op: BinaryOp) => op === '|' || op === '^' || op === '&';
+
+/** Whether a child needs parentheses under its parent operator */
+function needsParens(parent: BinaryOp, child: ExprNode, isRight: boolean): boolean {
+    if (child.kind !== 'binary') return false;
+    const pp = PRECEDENCE[parent];
+    const cp = PRECEDENCE[child.op];
+    if (cp < pp) return true;
+    if (cp === pp && isRight && !(parent === child.op && ASSOCIATIVE.has(parent))) return true;
+
+    // Spell out the groupings compilers warn about
+    if (parent === '||' && child.op === '&&') return true;
+    if ((isBitwise(parent) || isBitwise(child.op)) && parent !== child.op) return true;
+    return false;
+}
+
+/** Dimension offsets read as a single value: H-1, W/2, W-1-c */
+function isDimensionOffset(node: ExprNode): boolean {
+    if (node.kind === 'var') return DIMENSIONS.has(node.name);
+    if (node.kind !== 'binary') return false;
+    if (!['+', '-', '*', '/'].includes(node.op)) return false;
+    if (!isDimensionOffset(node.left)) return false;
+    return node.right.kind === 'num' || (node.op === '-' && node.right.kind === 'var');
+}
+
+/** 'A', with quote and backslash escaped */
+function printCharLiteral(code: number): string {
+    const ch = String.fromCharCode(code);
+    return ch === "'" || ch === '\\' ? `'\\${ch}'` : `'${ch}'`;
+}
+
+/** Print an AST back to a C-style condition string */
+export function printExpression(node: ExprNode): string {
+    switch (node.kind) {
+        case 'num':
+            if (node.isChar) return printCharLiteral(node.value);
+            return node.value < 0 ? `(${node.value})` : String(node.value);
+        case 'var':
+            return node.name;
+        case 'call':
+            return `${node.name}(${node.args.map(printExpression).join(', ')})`;
+        case 'unary': {
+            const arg = printExpression(node.arg);
+            return precedenceOf(node.arg) > UNARY_PRECEDENCE
+                ? `${node.op}${arg}`
+                : `${node.op}(${arg})`;
+        }
+        case 'binary': {
+            const left = printExpression(node.left);
+            const right = printExpression(node.right);
+            const l = needsParens(node.op, node.left, false) ? `(${left})` : left;
+            const r = needsParens(node.op, node.right, true) ? `(${right})` : right;
+
+            return isDimensionOffset(node) ? `${l}${node.op}${r}` : `${l} ${node.op} ${r}`;
+        }
+    }
+}
+
+/** Print the operands of a chain like a || b || c, each parenthesized as it would be inside it */
+export function printOperands(node: ExprNode, op: BinaryOp): string[] {
+    if (node.kind === 'binary' && node.op === op) {
+        return [...printOperands(node.left, op), ...printOperands(node.right, op)];
+    }
+    const text = printExpression(node);
+    return needsParens(op, node, true) ? [`(${text})`] : [text];
+}
+
+// --- COMBINATORS ---
+
+/** OR-combine several conditions */
+export function anyOf(nodes: ExprNode[]): ExprNode {
+    if (nodes.length === 0) return { kind: 'num', value: 0 };
+    return nodes.reduce((acc, node) => ({ kind: 'binary', op: '||', left: acc, right: node }));
+}
+
+/** AND-combine several conditions */
+export function allOf(nodes: ExprNode[]): ExprNode {
+    if (nodes.length === 0) return { kind: 'num', value: 1 };
+    return nodes.reduce((acc, node) => ({ kind: 'binary', op: '&&', left: acc, right: node }));
+}
+
+/** Fixed cells as a condition: one test per cell, or per row once there are many */
+export function cellsCondition(cells: GridCoord[]): ExprNode {
+    const at = (name: string, value: number): ExprNode =>
+        ({ kind: 'binary', op: '==', left: { kind: 'var', name }, right: { kind: 'num', value } });
+
+    if (cells.length <= 20) return anyOf(cells.map(c => allOf([at('r', c.row), at('c', c.col)])));
+
+    const byRow = new Map<number, number[]>();
+    for (const cell of cells) {
+        if (!byRow.has(cell.row)) byRow.set(cell.row, []);
+        byRow.get(cell.row)!.push(cell.col);
+    }
+    return anyOf([...byRow].map(([row, cols]) => allOf([at('r', row), anyOf(cols.map(col => at('c', col)))])));
+}
+
+/** Replace variables by expressions */
+export function substitute(node: ExprNode, bindings: Record<string, ExprNode>): ExprNode {
+    switch (node.kind) {
+        case 'num': return node;
+        case 'var': return bindings[node.name] ?? node;
+        case 'unary': return { ...node, arg: substitute(node.arg, bindings) };
+        case 'binary': return { ...node, left: substitute(node.left, bindings), right: substitute(node.right, bindings) };
+        case 'call': return { ...node, args: node.args.map(a => substitute(a, bindings)) };
+    }
+}
+
+/** Names of all variables referenced by an expression */
+export function collectVariables(node: ExprNode, into: Set<string> = new Set()): Set<string> {
+    switch (node.kind) {
+        case 'var': into.add(node.name); break;
+        case 'unary': collectVariables(node.arg, into); break;
+        case 'binary': collectVariables(node.left, into); collectVariables(node.right, into); break;
+        case 'call': node.args.forEach(a => collectVariables(a, into)); break;
+    }
+    return into;
+}
+
+/** Number of AST nodes, the measure of how simple a condition is */
+export function expressionSize(node: ExprNode): number {
+    switch (node.kind) {
+        case 'num':
+        case 'var': return 1;
+        case 'unary': return 1 + expressionSize(node.arg);
+        case 'binary': return 1 + expressionSize(node.left) + expressionSize(node.right);
+        case 'call': return 1 + node.args.reduce((sum, a) => sum + expressionSize(a), 0);
+    }
+}
+
+/** Replace every part that depends only on H and W by its value at this size */
+export function bindDimensions(node: ExprNode, H: number, W: number): ExprNode {
+    if (node.kind === 'num') return node;
+
+    const variables = collectVariables(node);
+    if (variables.size > 0 && [...variables].every(v => DIMENSIONS.has(v))) {
+        return { kind: 'num', value: evaluate(node, { H, W }) };
+    }
+
+    switch (node.kind) {
+        case 'var': return node;
+        case 'unary': return { ...node, arg: bindDimensions(node.arg, H, W) };
+        case 'binary': return { ...node, left: bindDimensions(node.left, H, W), right: bindDimensions(node.right, H, W) };
+        case 'call': return { ...node, args: node.args.map(a => bindDimensions(a, H, W)) };
+    }
+}
@@ -119,6 +119,18 @@ export class Grid {
         return this.cells.map(row => row.map(cell => ({ ...cell })));
     }
 
+    /** Merge two layers into a new grid; foreground cells cover the background */
+    static compose(background: Grid, foreground: Grid): Grid {
+        const merged = new Grid(foreground.rows, foreground.cols);
+        for (let r = 0; r < merged.rows; r++) {
+            for (let c = 0; c < merged.cols; c++) {
+                const cell = foreground.getCell(r, c)!.char !== null ? foreground.getCell(r, c) : background.getCell(r, c);
+                if (cell && cell.char !== null) merged.setCell(r, c, cell.char, cell.strokeId);
+            }
+        }
+        return merged;
+    }
+
     /** Restore from snapshot */
     restore(snapshot: Cell[][]): void {
         this.cells = snapshot.map(row => row.map(cell => ({ ...cell })));
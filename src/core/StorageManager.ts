@@ -3,6 +3,7 @@
  */
 
 import { Grid } from './Grid';
+import { Anchor, CodeStyle } from './types';
 
 export interface SavedFrame {
     r: number;
@@ -17,12 +18,23 @@ export interface SavedPattern {
     rows: number;
     cols: number;
     frames: SavedFrame[][]; // Array of frames, each frame is array of cells
+    choices?: Record<string, string>; // Predicate picked per character (by expression)
+    anchors?: Anchor[]; // How rows / columns are pinned when generating code
+    style?: CodeStyle; // Style profile of the generated code
+    tolerance?: number; // Cells a drawing may be off by and still count as a pattern (0 = off)
 }
 
 export class StorageManager {
     private static readonly KEY = 'pattern_builder_saves_v2';
 
-    static savePattern(name: string, grids: Grid[]): void {
+    static savePattern(
+        name: string,
+        grids: Grid[],
+        choices: Record<string, string> = {},
+        anchors: Anchor[] = [],
+        style: CodeStyle = 'beginner',
+        tolerance = 3
+    ): void {
         const saves = this.getSaves();
 
         const framesData: SavedFrame[][] = grids.map(grid => {
@@ -48,7 +60,11 @@ export class StorageManager {
             timestamp: Date.now(),
             rows: grids[0].rows,
             cols: grids[0].cols,
-            frames: framesData
+            frames: framesData,
+            choices,
+            anchors,
+            style,
+            tolerance
         };
 
         saves.push(pattern);
@@ -74,6 +90,17 @@ export class StorageManager {
         return saves.find(s => s.name === name) || null;
     }
 
+    /** Rebuild the frames of a saved pattern as grids */
+    static toGrids(pattern: SavedPattern): Grid[] {
+        return pattern.frames.map(frame => {
+            const grid = new Grid(pattern.rows, pattern.cols);
+            for (const cell of frame) {
+                grid.setCell(cell.r, cell.c, cell.char, 0);
+            }
+            return grid;
+        });
+    }
+
     static deletePattern(name: string): void {
         const saves = this.getSaves().filter(s => s.name !== name);
         localStorage.setItem(this.KEY, JSON.stringify(saves));
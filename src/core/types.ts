@@ -41,6 +41,15 @@ export interface Predicate {
     params: string[];         // Parameters used (e.g., ['H', 'W'])
     isScalable: boolean;      // Whether this scales with dimensions
     confidence: number;       // 0-1, how confident we are in this pattern
+    exceptions?: PredicateExceptions;  // Cells patched on top of the pattern
+    charExpression?: string;  // Printed character computed per cell, e.g. '0' + r % 10 (char is then one of them)
+    afterChars?: string[];    // Also selects these characters' cells, so it must be tested after their branches
+}
+
+/** Cells where a near-miss predicate differs from the drawing */
+export interface PredicateExceptions {
+    include: GridCoord[];     // Drawn, but outside the pattern
+    exclude: GridCoord[];     // Inside the pattern, but not drawn
 }
 
 export type PredicateType =
@@ -49,21 +58,81 @@ export type PredicateType =
     | 'anti_diagonal'
     | 'horizontal_line'
     | 'vertical_line'
+    | 'line'
     | 'filled_rect'
+    | 'hollow_rect'
+    | 'frame'
+    | 'triangle'
+    | 'pyramid'
+    | 'hourglass'
+    | 'diamond'
+    | 'ellipse'
     | 'checkerboard'
+    | 'periodic'
+    | 'bitwise'
+    | 'rings'
+    | 'spiral'
+    | 'composite'
+    | 'symmetric'
+    | 'synthesized'
+    | 'moving_cells'    // The first frame's cells, shifted a fixed step each frame t
+    | 'rotating'        // The first frame turned a quarter or half turn each frame t
     | 'coordinate_set';
 
+/** A drawer's rule for how one row or column number is written in code */
+export interface Anchor {
+    axis: 'row' | 'col';
+    value: number;  // Row / column index, as drawn
+    pin: 'start' | 'end' | 'center' | 'fraction' | 'fixed';  // Measured from the top/left, bottom/right, middle, as a fraction, or never scaled
+}
+
+/** A scalable pattern a drawing almost matches, and how far off it is */
+export interface NearMiss {
+    predicate: Predicate;
+    diff: PredicateExceptions;  // include: drawn cells to remove, exclude: missing cells to add
+}
+
 /** Result of pattern analysis */
 export interface AnalysisResult {
     predicates: Predicate[];
+    candidates: Map<string, Predicate[]>;  // Every reading per character, best first
+    nearMisses: Map<string, NearMiss[]>;   // Closest scalable patterns for characters that do not scale
     warnings: string[];
     isFullyParametric: boolean;
 }
 
-/** Generated C++ code output */
+/** Rows `from` <= r < `to`, each printed as `spaces` spaces then `count` copies of the character (expressions in r and H) */
+export interface RowRun {
+    from: string;
+    to: string;
+    spaces: string;
+    count: string;
+}
+
+/** A drawing of one character with a single unbroken run per row, as loops over each row */
+export interface RowLayout {
+    char: string;
+    runs: RowRun[];
+}
+
+/** Languages code can be generated in */
+export type Language = 'cpp' | 'python' | 'javascript' | 'java' | 'csharp';
+
+/** How generated code is written: basic constructs only, the language's usual idioms, or as short as possible */
+export type CodeStyle = 'beginner' | 'idiomatic' | 'compact';
+
+/** What a generated program reads from standard input */
+export interface InputFormat {
+    values: 'none' | 'H W' | 'W H' | 'N';  // none: H and W are fixed in the code; N: one size for square patterns
+    testCases: boolean;                    // A leading T, then the values of each of the T test cases
+}
+
+/** Generated program output */
 export interface GeneratedCode {
+    language: Language;
+    style: CodeStyle;
     code: string;
-    params: Map<string, number>;   // Parameter name -> default value
+    params: Map<string, number>;   // Values read from input, in order, with the drawing's as sample (H / W defaults if none)
     warnings: string[];
     isScalable: boolean;
 }
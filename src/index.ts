@@ -5,14 +5,19 @@
 import './styles/main.css';
 
 import { CanvasManager, ExtendedToolType } from './canvas/CanvasManager';
-import { PatternAnalyzer } from './analysis/PatternAnalyzer';
+import { AnalyzerOptions, PatternAnalyzer } from './analysis/PatternAnalyzer';
 import { CodeGenerator } from './codegen/CodeGenerator';
+import { AnimationGenerator } from './codegen/AnimationGenerator';
 import { Grid } from './core/Grid';
 import { StorageManager } from './core/StorageManager';
+import { AnalysisResult, Anchor, CodeStyle, GeneratedCode, GridCoord, InputFormat, Language } from './core/types';
 
 class App {
     private canvasManager!: CanvasManager;
     private codeOutput!: HTMLElement;
+    private analysisWarnings!: HTMLElement;
+    private predicatePicker!: HTMLElement;
+    private nearMissList!: HTMLElement;
     private terminalPreview!: HTMLElement;
     private cursorPos!: HTMLElement;
     private gridDims!: HTMLElement;
@@ -21,6 +26,40 @@ class App {
     // Default cell size target
     private readonly TARGET_CELL_SIZE = 26;
 
+    // Cells a drawing may be off by and still count as a clean pattern, unless changed with the Tolerance button
+    private readonly DEFAULT_TOLERANCE = 3;
+
+    // Quiet time after the last grid change before the drawing is analyzed again
+    private readonly UPDATE_DELAY_MS = 150;
+
+    // Saved patterns linked as the same drawing at other sizes
+    private linkedExamples: Grid[] = [];
+
+    // Predicate picked in the code panel per character (by expression)
+    private predicateChoices: Record<string, string> = {};
+
+    // Rows / columns pinned by the user with the Anchors button
+    private anchors: Anchor[] = [];
+
+    // Exception tolerance of this project, saved with it
+    private tolerance = this.DEFAULT_TOLERANCE;
+
+    // Language picked in the code tab
+    private language: Language = 'cpp';
+    // Style profile of the generated code, saved with the project
+    private style: CodeStyle = 'beginner';
+    // What the generated program reads from stdin
+    private input: InputFormat = { values: 'none', testCases: false };
+    // Generate code for every frame instead of the current one, optionally looping
+    private animate = false;
+    private loopAnimation = true;
+    // Analysis of each animation frame by its drawing, while the background and options (the context) stay the same
+    private frameAnalyses = { context: '', byFrame: new Map<string, AnalysisResult>() };
+    // What the animation code on screen was generated from, so playback and frame changes keep it
+    private animationKey = '';
+    // Print each row with loops of spaces and characters, when the drawing allows it
+    private rowLoops = false;
+
     constructor() {
         this.cacheElements();
         this.initializeCanvas();
@@ -38,9 +77,13 @@ class App {
         this.ensureCanvasSize();
     }
     private resizeTimer: any;
+    private updateTimer: any;
 
     private cacheElements(): void {
         this.codeOutput = document.getElementById('code-output')!;
+        this.analysisWarnings = document.getElementById('analysis-warnings')!;
+        this.predicatePicker = document.getElementById('predicate-picker')!;
+        this.nearMissList = document.getElementById('near-misses')!;
         this.terminalPreview = document.getElementById('terminal-preview')!;
         this.cursorPos = document.getElementById('cursor-pos')!;
         this.gridDims = document.getElementById('grid-dims')!;
@@ -53,7 +96,7 @@ class App {
 
         this.canvasManager.onGridChange = (grid) => {
             this.updateStats(grid);
-            this.liveUpdate(grid);
+            this.scheduleUpdate();
         };
 
         this.canvasManager.onCursorMove = (r, c) => {
@@ -165,7 +208,7 @@ class App {
 
         this.canvasManager.onFrameUpdate = (idx, total) => {
             updateFrameInfo(idx, total);
-            this.liveUpdate(this.canvasManager.getGrid());
+            this.liveUpdate();
             this.updateStats(this.canvasManager.getGrid());
         };
 
@@ -251,13 +294,19 @@ class App {
         // 12. Gallery Utils
         document.getElementById('new-btn')!.addEventListener('click', () => {
             if (confirm('Are you sure you want to start a new project? All unsaved changes will be lost.')) {
+                this.predicateChoices = {};
+                this.setAnchors([]);
+                this.setTolerance(this.DEFAULT_TOLERANCE);
+                this.setStyle('beginner');
                 this.canvasManager.resetProject();
             }
         });
         document.getElementById('save-btn')!.addEventListener('click', () => {
             const name = prompt('Enter pattern name:');
             if (name) {
-                StorageManager.savePattern(name, this.canvasManager.frameManager.getAllFrames());
+                StorageManager.savePattern(
+                    name, this.canvasManager.frameManager.getAllFrames(), this.predicateChoices, this.anchors, this.style, this.tolerance
+                );
                 alert(`Pattern "${name}" saved!`);
             }
         });
@@ -269,6 +318,10 @@ class App {
             if (patternName) {
                 const saved = StorageManager.loadPattern(patternName);
                 if (saved) {
+                    this.predicateChoices = saved.choices ?? {};
+                    this.setAnchors(saved.anchors ?? []);
+                    this.setTolerance(saved.tolerance ?? this.DEFAULT_TOLERANCE);
+                    this.setStyle(saved.style ?? 'beginner');
                     this.canvasManager.resize(saved.rows, saved.cols, saved.cols * this.TARGET_CELL_SIZE, saved.rows * this.TARGET_CELL_SIZE);
                     this.canvasManager.frameManager.loadFrames(saved.frames as any, saved.rows, saved.cols);
                     // TODO: Load background if version 2? Currently StorageManager only does frames.
@@ -277,8 +330,112 @@ class App {
             }
         });
 
+        document.getElementById('link-examples')!.addEventListener('click', (e) => {
+            const patterns = StorageManager.listPatterns();
+            if (patterns.length === 0) { alert('No saved patterns found.'); return; }
+            const input = prompt(
+                'Link saved patterns as the same pattern at other sizes (comma separated, empty to unlink):\n' +
+                patterns.map((p: string) => `- ${p}`).join('\n')
+            );
+            if (input === null) return;
+
+            this.linkedExamples = [];
+            for (const name of input.split(',').map(n => n.trim()).filter(n => n)) {
+                const saved = StorageManager.loadPattern(name);
+                if (saved) this.linkedExamples.push(StorageManager.toGrids(saved)[0]);
+                else alert(`Pattern "${name}" not found.`);
+            }
+
+            const target = e.target as HTMLButtonElement;
+            target.textContent = this.linkedExamples.length > 0 ? `Examples (${this.linkedExamples.length})` : 'Examples';
+            this.liveUpdate();
+        });
+
+        document.getElementById('edit-anchors')!.addEventListener('click', () => {
+            const current = this.anchors.map(a => `${a.axis} ${a.value} ${a.pin}`).join(', ');
+            const input = prompt(
+                'Pin rows / columns, comma separated (empty to clear):\n' +
+                '  row 7 end        - row 7 is counted from the bottom edge (H-3 when H = 10)\n' +
+                '  col 6 center     - column 6 stays relative to the middle\n' +
+                '  row 2 fraction   - row 2 is a fraction of H\n' +
+                '  col 4 start / fixed - column 4 never scales\n' +
+                'Anchors apply to row / column positions, not to lengths or offsets.',
+                current
+            );
+            if (input === null) return;
+
+            const anchors: Anchor[] = [];
+            for (const entry of input.split(',').map(e => e.trim()).filter(e => e)) {
+                const match = /^(row|col)\s+(\d+)\s+(start|end|center|fraction|fixed)$/i.exec(entry);
+                if (!match) { alert(`Cannot read "${entry}". Use e.g. "row 7 end".`); return; }
+                anchors.push({
+                    axis: match[1].toLowerCase() as Anchor['axis'],
+                    value: Number(match[2]),
+                    pin: match[3].toLowerCase() as Anchor['pin']
+                });
+            }
+            this.setAnchors(anchors);
+            this.liveUpdate();
+        });
+
+        document.getElementById('edit-tolerance')!.addEventListener('click', () => {
+            const input = prompt(
+                'Cells a drawing may be off by and still be read as a pattern with exceptions (0 to turn exceptions off):',
+                String(this.tolerance)
+            );
+            if (input === null) return;
+
+            const tolerance = Number(input.trim());
+            if (!Number.isInteger(tolerance) || tolerance < 0) { alert(`Cannot read "${input}". Use a whole number, e.g. 3.`); return; }
+            this.setTolerance(tolerance);
+            this.liveUpdate();
+        });
+
         document.getElementById('clear-canvas')!.addEventListener('click', () => this.canvasManager.clear());
 
+        const languageSelect = document.getElementById('code-language') as HTMLSelectElement;
+        languageSelect.addEventListener('change', () => {
+            this.language = languageSelect.value as Language;
+            // Only the C++ output comes in several styles
+            (document.getElementById('code-style') as HTMLSelectElement).disabled = this.language !== 'cpp';
+            this.liveUpdate();
+        });
+
+        const styleSelect = document.getElementById('code-style') as HTMLSelectElement;
+        styleSelect.addEventListener('change', () => {
+            this.style = styleSelect.value as CodeStyle;
+            this.liveUpdate();
+        });
+
+        const inputSelect = document.getElementById('code-input') as HTMLSelectElement;
+        const testCasesToggle = document.getElementById('code-test-cases') as HTMLInputElement;
+        const updateInput = () => {
+            this.input = { values: inputSelect.value as InputFormat['values'], testCases: testCasesToggle.checked };
+            this.liveUpdate();
+        };
+        inputSelect.addEventListener('change', updateInput);
+        testCasesToggle.addEventListener('change', updateInput);
+
+        const rowLoopsToggle = document.getElementById('code-row-loops') as HTMLInputElement;
+        rowLoopsToggle.addEventListener('change', () => {
+            this.rowLoops = rowLoopsToggle.checked;
+            this.liveUpdate();
+        });
+
+        const animateToggle = document.getElementById('code-animation') as HTMLInputElement;
+        const loopToggle = document.getElementById('code-loop') as HTMLInputElement;
+        animateToggle.addEventListener('change', () => {
+            this.animate = animateToggle.checked;
+            // Animations keep H and W in the code
+            inputSelect.disabled = testCasesToggle.disabled = this.animate;
+            loopToggle.disabled = !this.animate;
+            this.liveUpdate();
+        });
+        loopToggle.addEventListener('change', () => {
+            this.loopAnimation = loopToggle.checked;
+            this.liveUpdate();
+        });
+
         document.getElementById('copy-code')!.addEventListener('click', (e) => {
             navigator.clipboard.writeText(this.codeOutput.textContent || '');
             const target = e.target as HTMLButtonElement;
@@ -314,21 +471,204 @@ class App {
         this.cellCount.textContent = `${grid.getOccupiedCount()} cells`;
     }
 
-    private liveUpdate(grid: Grid): void {
+    /** Analyze once the drawing settles: a stroke changes the grid many times a second */
+    private scheduleUpdate(): void {
+        if (this.updateTimer) clearTimeout(this.updateTimer);
+        this.updateTimer = setTimeout(() => this.liveUpdate(), this.UPDATE_DELAY_MS);
+    }
+
+    /** Analyze what the program should print: the current frame over the background */
+    private liveUpdate(): void {
+        if (this.updateTimer) clearTimeout(this.updateTimer);
+        const frame = this.canvasManager.frameManager.getCurrentGrid();
+        const grid = this.canvasManager.getCompositeGrid();
         if (grid.getOccupiedCount() === 0) {
             this.codeOutput.innerHTML = '<code>// Draw to generate code</code>';
             this.terminalPreview.textContent = '';
+            this.showWarnings([]);
+            this.showCandidates(null);
+            this.showNearMisses(null);
+            this.animationKey = '';
             return;
         }
-        const analyzer = new PatternAnalyzer(grid);
-        const analysis = analyzer.analyze();
-        const generator = new CodeGenerator(analysis.predicates, grid.rows, grid.cols, analyzer.getCellsByChar());
-        const result = generator.generate();
-
+        const options = { tolerance: this.tolerance, choices: this.predicateChoices, anchors: this.anchors };
+        if (this.animate) {
+            (document.getElementById('code-row-loops') as HTMLInputElement).disabled = true;
+            this.updateAnimation(options);
+            this.terminalPreview.textContent = grid.toString();
+            return;
+        }
+        this.animationKey = '';
+
+        const analysis = this.linkedExamples.length > 0
+            ? PatternAnalyzer.analyzeExamples([grid, ...this.linkedExamples], options)
+            : PatternAnalyzer.analyzeLayers(frame, this.canvasManager.backgroundGrid, options);
+        // Row loops are offered only when they print this drawing exactly
+        const rows = PatternAnalyzer.analyzeRows(grid, options);
+        (document.getElementById('code-row-loops') as HTMLInputElement).disabled = !rows;
+        const result = new CodeGenerator(analysis.predicates, grid.rows, grid.cols, grid.getCellsByChar(), {
+            language: this.language,
+            style: this.style,
+            input: this.input,
+            rows: this.rowLoops && rows ? rows : undefined,
+        }).generate();
+
+        this.showWarnings([...analysis.warnings, ...result.warnings]);
+        this.showCandidates(analysis);
+        this.showNearMisses(analysis);
         this.codeOutput.innerHTML = `<code>${this.escapeHtml(result.code)}</code>`;
         this.terminalPreview.textContent = grid.toString();
     }
 
+    /** Show the animation code, generating it again only when the frames, the background or an option changed */
+    private updateAnimation(options: AnalyzerOptions): void {
+        const frames = this.canvasManager.frameManager.getAllFrames();
+        const settings = { language: this.language, style: this.style, loop: this.loopAnimation, options };
+        const key = [JSON.stringify(settings), this.canvasManager.backgroundGrid.toString(), ...frames.map(f => f.toString())].join('\n\f');
+        if (key === this.animationKey) return;
+        this.animationKey = key;
+
+        const result = this.generateAnimation(options);
+        this.showWarnings(result.warnings);
+        this.showCandidates(null);
+        this.showNearMisses(null);
+        this.codeOutput.innerHTML = `<code>${this.escapeHtml(result.code)}</code>`;
+    }
+
+    /**
+     * One program showing every frame over the background: a single loop over
+     * the frame number t when the frames move in step, otherwise a routine per
+     * distinct frame
+     */
+    private generateAnimation(options: AnalyzerOptions): GeneratedCode {
+        const background = this.canvasManager.backgroundGrid;
+        const frames = this.canvasManager.frameManager.getAllFrames();
+        const composites = frames.map(frame => Grid.compose(background, frame));
+        const { rows, cols } = composites[0];
+
+        const { distinct, sequence } = AnimationGenerator.distinctFrames(composites);
+
+        // Frames drawn the same way over the same background keep their analysis
+        const context = JSON.stringify(options) + background.toString();
+        if (context !== this.frameAnalyses.context) this.frameAnalyses = { context, byFrame: new Map() };
+        const analyses = distinct.map(i => {
+            const key = frames[i].toString();
+            if (!this.frameAnalyses.byFrame.has(key)) {
+                this.frameAnalyses.byFrame.set(key, PatternAnalyzer.analyzeLayers(frames[i], background, { ...options, synthesisBudgetMs: 0 }));
+            }
+            return this.frameAnalyses.byFrame.get(key)!;
+        });
+
+        // The same analyses first try to describe the frames as one motion over t
+        const motion = PatternAnalyzer.analyzeMotion(composites, options, sequence.map(k => analyses[k]));
+        if (motion) {
+            const time = { frames: frames.length, loop: this.loopAnimation, delayMs: 200 };
+            const result = new CodeGenerator(motion.predicates, rows, cols, composites[0].getCellsByChar(), { language: this.language, style: this.style, time }).generate();
+            return { ...result, warnings: [...motion.warnings, ...result.warnings] };
+        }
+
+        const analyzed = distinct.map((i, k) => ({ predicates: analyses[k].predicates, cellsByChar: composites[i].getCellsByChar() }));
+        return new AnimationGenerator(analyzed, sequence, rows, cols, { language: this.language, style: this.style, loop: this.loopAnimation }).generate();
+    }
+
+    private showWarnings(warnings: string[]): void {
+        this.analysisWarnings.textContent = warnings.map(w => w.trim()).join('\n');
+        this.analysisWarnings.classList.toggle('hidden', warnings.length === 0);
+    }
+
+    private setStyle(style: CodeStyle): void {
+        this.style = style;
+        (document.getElementById('code-style') as HTMLSelectElement).value = style;
+    }
+
+    private setAnchors(anchors: Anchor[]): void {
+        this.anchors = anchors;
+        document.getElementById('edit-anchors')!.textContent = anchors.length > 0 ? `Anchors (${anchors.length})` : 'Anchors';
+    }
+
+    private setTolerance(tolerance: number): void {
+        this.tolerance = tolerance;
+        document.getElementById('edit-tolerance')!.textContent = `Tolerance (${tolerance})`;
+    }
+
+    /** One picker per character listing its ranked readings; the pick drives code generation */
+    private showCandidates(analysis: AnalysisResult | null): void {
+        this.predicatePicker.innerHTML = '';
+        if (!analysis) {
+            this.predicatePicker.classList.add('hidden');
+            return;
+        }
+
+        for (const predicate of analysis.predicates) {
+            const ranked = analysis.candidates.get(predicate.char) ?? [];
+            if (ranked.length < 2) continue;
+
+            const select = document.createElement('select');
+            for (const candidate of ranked) {
+                const option = document.createElement('option');
+                const description = candidate.type === 'coordinate_set' ? 'fixed cells' : candidate.expression;
+                option.value = candidate.expression;
+                const after = candidate.afterChars ? `, after ${candidate.afterChars.map(c => `'${c}'`).join(' ')}` : '';
+                option.textContent = `${candidate.type}: ${description.length > 60 ? description.slice(0, 57) + '...' : description}` +
+                    ` (${Math.round(candidate.confidence * 100)}%, ${candidate.isScalable ? 'scales' : 'fixed'}${after})`;
+                option.selected = candidate === predicate;
+                select.appendChild(option);
+            }
+
+            select.addEventListener('change', () => {
+                if (select.selectedIndex === 0) delete this.predicateChoices[predicate.char];
+                else this.predicateChoices[predicate.char] = select.value;
+                this.liveUpdate();
+            });
+
+            const label = document.createElement('label');
+            label.textContent = `'${predicate.char}'`;
+            label.appendChild(select);
+            this.predicatePicker.appendChild(label);
+        }
+        this.predicatePicker.classList.toggle('hidden', this.predicatePicker.childElementCount === 0);
+    }
+
+    /** Closest scalable patterns for unparameterized characters, with a button applying the fix */
+    private showNearMisses(analysis: AnalysisResult | null): void {
+        this.nearMissList.innerHTML = '';
+        const highlights: GridCoord[] = [];
+        const frameChars = this.canvasManager.frameManager.getCurrentGrid().getCellsByChar();
+
+        for (const [char, nearest] of analysis?.nearMisses ?? []) {
+            const layer = frameChars.has(char) ? 'foreground' : 'background';
+
+            nearest.forEach(({ predicate, diff }, i) => {
+                const cells = [...diff.include, ...diff.exclude];
+                if (i === 0) highlights.push(...cells);
+
+                const row = document.createElement('div');
+                row.className = 'near-miss';
+                row.textContent = `'${char}' ${predicate.type.replace(/_/g, ' ')}: ` +
+                    `+${diff.exclude.length} / -${diff.include.length} cells`;
+                row.addEventListener('mouseenter', () => this.canvasManager.setHighlights(cells));
+                row.addEventListener('mouseleave', () => this.canvasManager.setHighlights(highlights));
+
+                const snap = document.createElement('button');
+                snap.className = 'copy-btn';
+                snap.textContent = 'Snap to pattern';
+                snap.addEventListener('click', () => {
+                    const skipped = this.canvasManager.applyFix(layer, char, diff.exclude, diff.include);
+                    if (skipped > 0) {
+                        alert(`${skipped} cell(s) were left as they are: another character is drawn there, ` +
+                            `or '${char}' is drawn there on the other layer.`);
+                    }
+                });
+                row.appendChild(snap);
+
+                this.nearMissList.appendChild(row);
+            });
+        }
+
+        this.nearMissList.classList.toggle('hidden', this.nearMissList.childElementCount === 0);
+        this.canvasManager.setHighlights(highlights);
+    }
+
     private escapeHtml(text: string): string { return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'); }
 }
 